@@ -0,0 +1,224 @@
+import { formatJsonLine } from './json-logger.js';
+import type {
+	BufferedLogger,
+	BufferedLoggerOptions,
+	BufferedLoggerStats,
+	LogContext,
+	LogEntry,
+	Logger,
+	LogLevel,
+	LogStream,
+} from './types.js';
+
+interface QueuedEntry extends LogEntry {
+	time: Date;
+}
+
+const isStream = (target: Logger | LogStream): target is LogStream =>
+	typeof (target as LogStream).write === 'function';
+
+interface EventedStream extends LogStream {
+	write(chunk: string, callback?: (error?: Error | null) => void): unknown;
+	on(event: string, listener: () => void): unknown;
+	once(event: string, listener: () => void): unknown;
+	off(event: string, listener: () => void): unknown;
+	destroyed?: boolean;
+	writableEnded?: boolean;
+}
+
+const isEventedStream = (stream: LogStream): stream is EventedStream =>
+	typeof (stream as EventedStream).on === 'function' &&
+	typeof (stream as EventedStream).once === 'function' &&
+	typeof (stream as EventedStream).off === 'function';
+
+const ignoreStreamError = (): void => {
+	// failures are counted through the write callback
+};
+
+const writeChunk = (stream: LogStream, chunk: string): Promise<boolean> => {
+	if (!isEventedStream(stream)) {
+		stream.write(chunk);
+		return Promise.resolve(true);
+	}
+	if (stream.destroyed === true || stream.writableEnded === true) return Promise.resolve(false);
+
+	return new Promise((resolve) => {
+		let settled = false;
+		const finish = (delivered: boolean): void => {
+			if (settled) return;
+			settled = true;
+			stream.off('error', onFailure);
+			stream.off('close', onFailure);
+			resolve(delivered);
+		};
+		const onFailure = (): void => finish(false);
+		stream.once('error', onFailure);
+		stream.once('close', onFailure);
+		stream.write(chunk, (error) => finish(error == null));
+	});
+};
+
+export const createBufferedLogger = (
+	target: Logger | LogStream,
+	options: BufferedLoggerOptions = {},
+): BufferedLogger => {
+	const maxQueueSize = options.maxQueueSize ?? 1000;
+	const batchSize = options.batchSize ?? 100;
+	const flushIntervalMs = options.flushIntervalMs ?? 1000;
+	const overflow = options.overflow ?? 'drop-oldest';
+	const shutdownTimeoutMs = options.shutdownTimeoutMs ?? 5000;
+
+	const queue: QueuedEntry[] = [];
+	const counters: Omit<BufferedLoggerStats, 'queued'> = {
+		written: 0,
+		dropped: 0,
+		blocked: 0,
+		errored: 0,
+	};
+	let closed = false;
+	let flushing: Promise<void> | undefined;
+	let inFlight: QueuedEntry[] | undefined;
+	let scheduled = false;
+
+	const deliverSync = (batch: QueuedEntry[]): void => {
+		for (const entry of batch) {
+			try {
+				if (isStream(target)) {
+					target.write(formatJsonLine(entry.level, entry.message, entry.context, {}, entry.time));
+				} else {
+					target[entry.level](entry.message, entry.context);
+				}
+				counters.written++;
+			} catch {
+				counters.errored++;
+			}
+		}
+	};
+
+	const deliver = async (batch: QueuedEntry[]): Promise<void> => {
+		if (!isStream(target)) {
+			deliverSync(batch);
+			return;
+		}
+		const chunk = batch
+			.map((entry) => formatJsonLine(entry.level, entry.message, entry.context, {}, entry.time))
+			.join('');
+		inFlight = batch;
+		let delivered: boolean;
+		try {
+			delivered = await writeChunk(target, chunk);
+		} catch {
+			delivered = false;
+		}
+		if (inFlight !== batch) return;
+		inFlight = undefined;
+		if (delivered) {
+			counters.written += batch.length;
+		} else {
+			counters.errored += batch.length;
+		}
+	};
+
+	const drain = async (): Promise<void> => {
+		while (queue.length > 0) {
+			await deliver(queue.splice(0, batchSize));
+		}
+	};
+
+	const drainWithin = async (timeoutMs: number): Promise<boolean> => {
+		flushing ??= drain().finally(() => {
+			flushing = undefined;
+		});
+		let timeout: ReturnType<typeof setTimeout> | undefined;
+		const timedOut = new Promise<boolean>((resolve) => {
+			timeout = setTimeout(() => resolve(false), timeoutMs);
+		});
+		const drained = await Promise.race([flushing.then(() => true), timedOut]);
+		clearTimeout(timeout);
+		return drained;
+	};
+
+	const flush = async (): Promise<void> => {
+		await drainWithin(shutdownTimeoutMs);
+	};
+
+	const scheduleFlush = (): void => {
+		if (scheduled) return;
+		scheduled = true;
+		setImmediate(() => {
+			scheduled = false;
+			void flush();
+		});
+	};
+
+	const evented = isStream(target) && isEventedStream(target) ? target : undefined;
+	evented?.on('error', ignoreStreamError);
+
+	const timer = setInterval(() => {
+		if (queue.length > 0) void flush();
+	}, flushIntervalMs);
+	timer.unref();
+
+	const enqueue = (level: LogLevel, message: string, context?: LogContext): void => {
+		if (closed) {
+			counters.dropped++;
+			return;
+		}
+		if (queue.length >= maxQueueSize) {
+			if (overflow === 'drop-newest') {
+				counters.dropped++;
+				return;
+			}
+			if (overflow === 'drop-oldest') {
+				queue.shift();
+				counters.dropped++;
+			} else {
+				counters.blocked++;
+				deliverSync(queue.splice(0, batchSize));
+			}
+		}
+		queue.push({ level, message, context, time: new Date() });
+		if (queue.length >= batchSize) scheduleFlush();
+	};
+
+	const onBeforeExit = (): void => {
+		void flush();
+	};
+
+	const onSigterm = (): void => {
+		void close().finally(() => {
+			if (process.listenerCount('SIGTERM') === 0) {
+				process.kill(process.pid, 'SIGTERM');
+			}
+		});
+	};
+
+	if (options.drainOnExit) {
+		process.on('beforeExit', onBeforeExit);
+		process.once('SIGTERM', onSigterm);
+	}
+
+	const close = async (): Promise<void> => {
+		closed = true;
+		clearInterval(timer);
+		process.off('beforeExit', onBeforeExit);
+		process.off('SIGTERM', onSigterm);
+
+		if (!(await drainWithin(shutdownTimeoutMs))) {
+			counters.dropped += queue.length + (inFlight?.length ?? 0);
+			queue.length = 0;
+			inFlight = undefined;
+		}
+		evented?.off('error', ignoreStreamError);
+	};
+
+	return {
+		debug: (message, context) => enqueue('debug', message, context),
+		info: (message, context) => enqueue('info', message, context),
+		warn: (message, context) => enqueue('warn', message, context),
+		error: (message, context) => enqueue('error', message, context),
+		flush,
+		close,
+		stats: () => ({ ...counters, queued: queue.length }),
+	};
+};
@@ -0,0 +1,12 @@
+import type { Clock } from './types.js';
+
+export const performanceClock: Clock = {
+	now: () => performance.now(),
+};
+
+export const hrtimeClock: Clock = {
+	now: () => Number(process.hrtime.bigint()) / 1_000_000,
+};
+
+export const formatLegacyDuration = (durationMs: number): string =>
+	`${Math.round(durationMs)}ms`;
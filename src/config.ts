@@ -8,7 +8,14 @@
 
 
 
-import type { Logger, LoggingMiddlewareConfig } from './types.js';
+import { AsyncLocalStorage } from 'node:async_hooks';
+import { getRedactor, redactLogger } from './redaction.js';
+import type {
+	Logger,
+	LoggingMiddlewareConfig,
+	LogThreshold,
+	RedactionConfig,
+} from './types.js';
 
 
 const noopLogger: Logger = {
@@ -22,13 +29,34 @@ let currentConfig: LoggingMiddlewareConfig = {
 	logger: noopLogger,
 };
 
+const scopedOverrides = new AsyncLocalStorage<Partial<LoggingMiddlewareConfig>>();
+
+const redactingLoggers = new WeakMap<Logger, WeakMap<RedactionConfig, Logger>>();
+
+const withRedactingLogger = (config: LoggingMiddlewareConfig): LoggingMiddlewareConfig => {
+	const { logger, redaction } = config;
+	if (redaction === undefined) return config;
+
+	let byRedaction = redactingLoggers.get(logger);
+	if (byRedaction === undefined) {
+		byRedaction = new WeakMap();
+		redactingLoggers.set(logger, byRedaction);
+	}
+	let wrapped = byRedaction.get(redaction);
+	if (wrapped === undefined) {
+		wrapped = redactLogger(logger, getRedactor(redaction));
+		byRedaction.set(redaction, wrapped);
+	}
+	return { ...config, logger: wrapped };
+};
+
 
 
 
 
 
 export function configure(config: LoggingMiddlewareConfig): void {
-	currentConfig = { ...config };
+	currentConfig = withRedactingLogger({ ...config });
 }
 
 
@@ -37,7 +65,34 @@ export function configure(config: LoggingMiddlewareConfig): void {
 
 
 export function getConfig(): LoggingMiddlewareConfig {
-	return currentConfig;
+	const overrides = scopedOverrides.getStore();
+	if (overrides === undefined) return currentConfig;
+	const merged = { ...currentConfig, ...overrides };
+	return overrides.logger === undefined && overrides.redaction === undefined
+		? merged
+		: withRedactingLogger(merged);
+}
+
+
+
+
+
+export function runWithConfig<T>(config: Partial<LoggingMiddlewareConfig>, fn: () => T): T {
+	if (config.redaction !== undefined) {
+		getRedactor(config.redaction);
+	}
+	return scopedOverrides.run({ ...scopedOverrides.getStore(), ...config }, fn);
+}
+
+
+
+
+
+export function setLevel(level: LogThreshold, component?: string): void {
+	currentConfig =
+		component === undefined
+			? { ...currentConfig, level }
+			: { ...currentConfig, levels: { ...currentConfig.levels, [component]: level } };
 }
 
 
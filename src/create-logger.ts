@@ -8,7 +8,11 @@
 
 
 import { getConfig } from './config.js';
-import type { Logger, LogContext } from './types.js';
+import { isLevelEnabled } from './levels.js';
+import { getRedactor } from './redaction.js';
+import { getRequestContext } from './request-context.js';
+import { serializeError } from './serialize-error.js';
+import type { ComponentLogger, LogContext, LogLevel } from './types.js';
 
 
 
@@ -17,17 +21,47 @@ import type { Logger, LogContext } from './types.js';
 
 
 
-export const createLogger = (component: string): Logger => {
-	const { logger } = getConfig();
+const COMPONENT_SEPARATOR = ':';
+
+const buildLogger = (component: string, bindings: LogContext): ComponentLogger => {
+	const log = (level: LogLevel, message: string, context?: LogContext): void => {
+		const config = getConfig();
+		if (!isLevelEnabled(config, component, level)) return;
+
+		const request = getRequestContext();
+		const merged: LogContext =
+			request === undefined
+				? { component, ...bindings, ...context }
+				: {
+						component,
+						requestId: request.requestId,
+						...(request.trace !== undefined && {
+							traceId: request.trace.traceId,
+							spanId: request.trace.spanId,
+						}),
+						...bindings,
+						...context,
+					};
+		for (const [key, value] of Object.entries(merged)) {
+			if (value instanceof Error) merged[key] = serializeError(value, config.errorSerialization);
+		}
+
+		const redacted =
+			config.redaction === undefined ? merged : getRedactor(config.redaction)(merged);
+		config.logger[level](message, redacted);
+	};
 	return {
-		debug: (message: string, context?: LogContext) =>
-			logger.debug(message, { component, ...context }),
-		info: (message: string, context?: LogContext) =>
-			logger.info(message, { component, ...context }),
-		warn: (message: string, context?: LogContext) =>
-			logger.warn(message, { component, ...context }),
-		error: (message: string, context?: LogContext) =>
-			logger.error(message, { component, ...context }),
+		debug: (message: string, context?: LogContext) => log('debug', message, context),
+		info: (message: string, context?: LogContext) => log('info', message, context),
+		warn: (message: string, context?: LogContext) => log('warn', message, context),
+		error: (message: string, context?: LogContext) => log('error', message, context),
+		child: ({ component: childComponent, ...childBindings }: LogContext) =>
+			buildLogger(
+				typeof childComponent !== 'string' || childComponent === ''
+					? component
+					: [component, childComponent].filter(Boolean).join(COMPONENT_SEPARATOR),
+				{ ...bindings, ...childBindings },
+			),
 	};
 };
 
@@ -37,4 +71,13 @@ export const createLogger = (component: string): Logger => {
 
 
 
+
+export const createLogger = (component: string): ComponentLogger => buildLogger(component, {});
+
+
+
+
+
+
+
 export const createScopedLogger = createLogger;
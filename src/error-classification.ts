@@ -0,0 +1,55 @@
+import type { ErrorClassification, LogLevel } from './types.js';
+
+export const TRPC_ERROR_HTTP_STATUS: Readonly<Record<string, number>> = {
+	PARSE_ERROR: 400,
+	BAD_REQUEST: 400,
+	UNAUTHORIZED: 401,
+	PAYMENT_REQUIRED: 402,
+	FORBIDDEN: 403,
+	NOT_FOUND: 404,
+	METHOD_NOT_SUPPORTED: 405,
+	TIMEOUT: 408,
+	CONFLICT: 409,
+	PRECONDITION_FAILED: 412,
+	PAYLOAD_TOO_LARGE: 413,
+	UNSUPPORTED_MEDIA_TYPE: 415,
+	UNPROCESSABLE_CONTENT: 422,
+	PRECONDITION_REQUIRED: 428,
+	TOO_MANY_REQUESTS: 429,
+	CLIENT_CLOSED_REQUEST: 499,
+	INTERNAL_SERVER_ERROR: 500,
+	NOT_IMPLEMENTED: 501,
+	BAD_GATEWAY: 502,
+	SERVICE_UNAVAILABLE: 503,
+	GATEWAY_TIMEOUT: 504,
+};
+
+export interface TRPCErrorLike {
+	code: string;
+	message?: string;
+	cause?: unknown;
+}
+
+export const isTRPCErrorLike = (error: unknown): error is TRPCErrorLike =>
+	error !== null &&
+	typeof error === 'object' &&
+	typeof (error as { code?: unknown }).code === 'string' &&
+	(error as { code: string }).code in TRPC_ERROR_HTTP_STATUS;
+
+const defaultLevelForStatus = (httpStatus: number): LogLevel =>
+	httpStatus < 500 ? 'warn' : 'error';
+
+export const classifyError = (
+	error: unknown,
+	levels: Partial<Record<string, LogLevel>> = {},
+): ErrorClassification => {
+	const code = isTRPCErrorLike(error) ? error.code : 'INTERNAL_SERVER_ERROR';
+	const httpStatus = TRPC_ERROR_HTTP_STATUS[code] ?? 500;
+
+	return {
+		code,
+		httpStatus,
+		expected: httpStatus < 500,
+		level: levels[code] ?? defaultLevelForStatus(httpStatus),
+	};
+};
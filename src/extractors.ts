@@ -0,0 +1,63 @@
+import type { ContextExtractor, LogContext } from './types.js';
+
+export const sessionExtractor: ContextExtractor = (ctx) => {
+	const session = ctx.session as
+		| { id?: string | null; userId?: string | null }
+		| null
+		| undefined;
+
+	const context: LogContext = {};
+	if (session?.id !== undefined && session.id !== null) {
+		context.sessionId = session.id;
+	}
+	if (session?.userId !== undefined && session.userId !== null) {
+		context.userId = session.userId;
+	}
+	return context;
+};
+
+export const clientExtractor: ContextExtractor = (ctx) => {
+	const client = ctx.client as
+		| {
+				ipHash?: string;
+				deviceType?: string;
+				browser?: { name?: string } | null;
+		  }
+		| null
+		| undefined;
+
+	const context: LogContext = {};
+	if (client?.ipHash !== undefined) {
+		context.clientIpHash = client.ipHash;
+	}
+	if (client?.deviceType !== undefined) {
+		context.deviceType = client.deviceType;
+	}
+	if (client?.browser?.name !== undefined) {
+		context.browser = client.browser.name;
+	}
+	return context;
+};
+
+export const defaultExtractors: readonly ContextExtractor[] = [sessionExtractor, clientExtractor];
+
+export const runExtractors = (
+	extractors: readonly ContextExtractor[],
+	ctx: Record<string, unknown>,
+	path: string,
+	type: string,
+	onError: (error: unknown, index: number) => void,
+): LogContext => {
+	const merged: LogContext = {};
+	extractors.forEach((extractor, index) => {
+		try {
+			const fragment = extractor(ctx, path, type);
+			if (fragment !== null && typeof fragment === 'object') {
+				Object.assign(merged, fragment);
+			}
+		} catch (error: unknown) {
+			onError(error, index);
+		}
+	});
+	return merged;
+};
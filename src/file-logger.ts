@@ -0,0 +1,171 @@
+import {
+	closeSync,
+	createReadStream,
+	createWriteStream,
+	fstatSync,
+	mkdirSync,
+	openSync,
+	readdirSync,
+	renameSync,
+	unlinkSync,
+	writeSync,
+} from 'node:fs';
+import { basename, dirname, join } from 'node:path';
+import { pipeline } from 'node:stream/promises';
+import { createGzip } from 'node:zlib';
+import { formatJsonLine } from './json-logger.js';
+import { escapeRegExp, meetsThreshold } from './levels.js';
+import type { FileLogger, FileLoggerOptions, LogContext, LogLevel } from './types.js';
+
+const dayKey = (time: Date): string =>
+	`${time.getFullYear()}-${String(time.getMonth() + 1).padStart(2, '0')}-${String(
+		time.getDate(),
+	).padStart(2, '0')}`;
+
+const rotationStamp = (time: Date): string => time.toISOString().replace(/[:.]/g, '-');
+
+interface RotatedFile {
+	name: string;
+	stamp: string;
+	sequence: number;
+}
+
+const compareRotated = (a: RotatedFile, b: RotatedFile): number =>
+	a.stamp === b.stamp ? a.sequence - b.sequence : a.stamp < b.stamp ? -1 : 1;
+
+export const createFileLogger = (options: FileLoggerOptions): FileLogger => {
+	const { path } = options;
+	const directory = dirname(path);
+	const prefix = `${basename(path)}.`;
+	const rotatedPattern = new RegExp(
+		`^${escapeRegExp(prefix)}(\\d{4}-\\d{2}-\\d{2}T\\d{2}-\\d{2}-\\d{2}-\\d{3}Z)(?:-(\\d+))?(?:\\.gz)?$`,
+	);
+	const threshold = options.level ?? 'debug';
+	const base = options.base ?? {};
+	const maxFiles = options.maxFiles ?? 5;
+	const reportError = (error: unknown): void => options.onError?.(error);
+
+	mkdirSync(directory, { recursive: true });
+
+	let fd: number | undefined;
+	let size = 0;
+	let day = dayKey(new Date());
+	let pending: Promise<void> = Promise.resolve();
+	let closed = false;
+
+	const open = (): void => {
+		fd = openSync(path, 'a');
+		size = fstatSync(fd).size;
+	};
+
+	const closeFile = (): void => {
+		if (fd !== undefined) {
+			closeSync(fd);
+			fd = undefined;
+		}
+	};
+
+	const listRotated = (): RotatedFile[] =>
+		readdirSync(directory)
+			.flatMap((name) => {
+				const match = rotatedPattern.exec(name);
+				return match === null ? [] : [{ name, stamp: match[1], sequence: Number(match[2] ?? 0) }];
+			})
+			.sort(compareRotated);
+
+	const prune = (): void => {
+		const rotated = listRotated();
+		for (const { name } of rotated.slice(0, Math.max(0, rotated.length - maxFiles))) {
+			try {
+				unlinkSync(join(directory, name));
+			} catch (error: unknown) {
+				reportError(error);
+			}
+		}
+	};
+
+	const compress = async (file: string): Promise<void> => {
+		await pipeline(createReadStream(file), createGzip(), createWriteStream(`${file}.gz`));
+		unlinkSync(file);
+	};
+
+	const nextRotatedPath = (): string => {
+		const stamp = rotationStamp(new Date());
+		const taken = listRotated().filter((file) => file.stamp === stamp);
+		if (taken.length === 0) return join(directory, `${prefix}${stamp}`);
+		const next = String(Math.max(...taken.map((file) => file.sequence)) + 1).padStart(3, '0');
+		return join(directory, `${prefix}${stamp}-${next}`);
+	};
+
+	const rotate = (): void => {
+		closeFile();
+		const target = nextRotatedPath();
+		try {
+			renameSync(path, target);
+		} catch (error: unknown) {
+			reportError(error);
+		}
+		open();
+		day = dayKey(new Date());
+
+		if (options.compress) {
+			pending = pending
+				.then(() => compress(target))
+				.then(prune)
+				.catch(reportError);
+		} else {
+			prune();
+		}
+	};
+
+	const reopen = (): void => {
+		closeFile();
+		open();
+	};
+
+	const onSighup = (): void => {
+		try {
+			reopen();
+		} catch (error: unknown) {
+			reportError(error);
+		}
+	};
+
+	const write = (level: LogLevel, message: string, context?: LogContext): void => {
+		if (closed || !meetsThreshold(level, threshold)) return;
+		try {
+			const now = new Date();
+			const line = formatJsonLine(level, message, context, base, now);
+			const bytes = Buffer.byteLength(line);
+			const dayChanged = options.rotateDaily === true && dayKey(now) !== day;
+			const tooLarge =
+				options.maxSize !== undefined && size > 0 && size + bytes > options.maxSize;
+			if (dayChanged || tooLarge) rotate();
+			writeSync(fd as number, line);
+			size += bytes;
+		} catch (error: unknown) {
+			reportError(error);
+		}
+	};
+
+	open();
+
+	if (options.reopenOnSighup) {
+		process.on('SIGHUP', onSighup);
+	}
+
+	return {
+		debug: (message, context) => write('debug', message, context),
+		info: (message, context) => write('info', message, context),
+		warn: (message, context) => write('warn', message, context),
+		error: (message, context) => write('error', message, context),
+		rotate,
+		reopen,
+		close: async () => {
+			closed = true;
+			process.off('SIGHUP', onSighup);
+			closeFile();
+			await pending;
+		},
+	};
+};
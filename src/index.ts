@@ -27,18 +27,137 @@
 
 
 
-export { configure, getConfig, resetConfig, getNoopLogger } from './config.js';
+export {
+	configure,
+	getConfig,
+	resetConfig,
+	getNoopLogger,
+	setLevel,
+	runWithConfig,
+} from './config.js';
 
 
 export type {
 	LogLevel,
+	LogThreshold,
 	LogContext,
 	Logger,
+	ComponentLogger,
 	LoggingMiddlewareConfig,
+	LoggingMiddleware,
+	LoggingMiddlewareOpts,
+	LoggingMiddlewareOptions,
+	LoggingMiddlewareMessages,
+	LoggingMiddlewareField,
+	ContextExtractor,
+	ErrorClassification,
+	ErrorStackMode,
+	SerializeErrorOptions,
+	SerializedError,
+	RedactionConfig,
+	RedactionRule,
+	RedactionStrategy,
+	RedactionPatternName,
+	PayloadCapture,
+	PayloadLimits,
+	PayloadCaptureOverride,
+	PayloadLoggingOptions,
+	SamplingOptions,
+	SamplingKeyFn,
+	SlowProcedureOptions,
+	SubscriptionLoggingOptions,
+	Clock,
+	LogStream,
+	JsonLoggerOptions,
+	PrettyLoggerOptions,
+	LogEntry,
+	MultiLogger,
+	MultiLoggerOptions,
+	MultiLoggerSink,
+	SinkDiagnostics,
+	OverflowPolicy,
+	BufferedLogger,
+	BufferedLoggerOptions,
+	BufferedLoggerStats,
+	FileLogger,
+	FileLoggerOptions,
+	InMemoryTracer,
+	MetricsRegistry,
+	MetricsRegistryOptions,
+	ProcedureOutcome,
+	ProcedureResult,
+	RecordedSpan,
+	Span,
+	SpanAttributes,
+	SpanAttributeValue,
+	SpanContext,
+	SpanOptions,
+	SpanStatus,
+	Tracer,
+	TraceContext,
+	TraceParent,
+	RingBufferEntry,
+	RingBufferLogger,
+	RingBufferLoggerOptions,
+	RingBufferQuery,
 } from './types.js';
 
 
-export { loggingMiddleware } from './middleware.js';
+export { loggingMiddleware, createLoggingMiddleware } from './middleware.js';
+export { sessionExtractor, clientExtractor, defaultExtractors } from './extractors.js';
+export {
+	classifyError,
+	isTRPCErrorLike,
+	TRPC_ERROR_HTTP_STATUS,
+} from './error-classification.js';
+export type { TRPCErrorLike } from './error-classification.js';
+export { serializeError, resolveStackMode } from './serialize-error.js';
+export {
+	createRedactor,
+	redactLogger,
+	REDACTED,
+	REDACTION_PATTERNS,
+} from './redaction.js';
+export type { Redactor } from './redaction.js';
+export { truncatePayload, TRUNCATED } from './payload.js';
+export { isSampled, hashToUnitInterval } from './sampling.js';
+export { performanceClock, hrtimeClock } from './clock.js';
+export { isLevelEnabled, resolveComponentLevel } from './levels.js';
+export { createJsonLogger } from './json-logger.js';
+export { createPrettyLogger, detectColorSupport } from './pretty-logger.js';
+export { createMultiLogger } from './multi-logger.js';
+export { createBufferedLogger } from './buffered-logger.js';
+export { createFileLogger } from './file-logger.js';
+export { createRingBufferLogger } from './ring-buffer-logger.js';
+export { safeStringify } from './safe-json.js';
+export { createInMemoryTracer } from './tracing.js';
+export {
+	createMetricsRegistry,
+	DEFAULT_DURATION_BUCKETS,
+	PROMETHEUS_CONTENT_TYPE,
+} from './metrics.js';
+export {
+	parseTraceparent,
+	formatTraceparent,
+	parseTracestate,
+	formatTracestate,
+	generateTraceId,
+	generateSpanId,
+	isValidTraceId,
+	isValidSpanId,
+	TRACE_FLAG_SAMPLED,
+} from './trace-context.js';
 
 
 export { createLogger, createScopedLogger } from './create-logger.js';
+
+
+export {
+	runWithRequestContext,
+	getRequestContext,
+	getRequestId,
+	resolveRequestId,
+	getTraceContext,
+	getTraceHeaders,
+} from './request-context.js';
+export type { RequestContext } from './request-context.js';
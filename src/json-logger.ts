@@ -0,0 +1,39 @@
+import { meetsThreshold } from './levels.js';
+import { toJsonValue } from './safe-json.js';
+import type { JsonLoggerOptions, LogContext, Logger, LogLevel } from './types.js';
+
+const RESERVED_KEYS = new Set(['time', 'level', 'msg']);
+
+export const formatJsonLine = (
+	level: LogLevel,
+	message: string,
+	context: LogContext | undefined,
+	base: LogContext = {},
+	time: Date = new Date(),
+): string => {
+	const entry: Record<string, unknown> = { time: time.toISOString(), level, msg: message };
+	for (const source of [base, context ?? {}]) {
+		for (const [key, value] of Object.entries(source)) {
+			if (!RESERVED_KEYS.has(key)) entry[key] = value;
+		}
+	}
+	return `${JSON.stringify(toJsonValue(entry))}\n`;
+};
+
+export const createJsonLogger = (options: JsonLoggerOptions = {}): Logger => {
+	const stream = options.stream ?? process.stdout;
+	const threshold = options.level ?? 'debug';
+	const base = options.base ?? {};
+
+	const write = (level: LogLevel, message: string, context?: LogContext): void => {
+		if (!meetsThreshold(level, threshold)) return;
+		stream.write(formatJsonLine(level, message, context, base));
+	};
+
+	return {
+		debug: (message, context) => write('debug', message, context),
+		info: (message, context) => write('info', message, context),
+		warn: (message, context) => write('warn', message, context),
+		error: (message, context) => write('error', message, context),
+	};
+};
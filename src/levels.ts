@@ -0,0 +1,60 @@
+import type { LogLevel, LogThreshold, LoggingMiddlewareConfig } from './types.js';
+
+const LEVEL_ORDER: Readonly<Record<LogThreshold, number>> = {
+	debug: 10,
+	info: 20,
+	warn: 30,
+	error: 40,
+	silent: Number.POSITIVE_INFINITY,
+};
+
+interface CompiledOverride {
+	pattern: string;
+	regex: RegExp;
+	level: LogThreshold;
+}
+
+export const escapeRegExp = (value: string): string =>
+	value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const globToRegExp = (pattern: string): RegExp =>
+	new RegExp(`^${pattern.split('*').map(escapeRegExp).join('.*')}$`);
+
+const specificity = (pattern: string): number => pattern.replace(/\*/g, '').length;
+
+const compiledCache = new WeakMap<Record<string, LogThreshold>, CompiledOverride[]>();
+
+const compileOverrides = (levels: Record<string, LogThreshold>): CompiledOverride[] => {
+	let compiled = compiledCache.get(levels);
+	if (compiled === undefined) {
+		compiled = Object.entries(levels)
+			.map(([pattern, level]) => ({ pattern, regex: globToRegExp(pattern), level }))
+			.sort((a, b) => specificity(b.pattern) - specificity(a.pattern));
+		compiledCache.set(levels, compiled);
+	}
+	return compiled;
+};
+
+export const resolveComponentLevel = (
+	config: LoggingMiddlewareConfig,
+	component: string | undefined,
+): LogThreshold => {
+	if (component !== undefined && config.levels !== undefined) {
+		if (Object.hasOwn(config.levels, component)) return config.levels[component];
+		const match = compileOverrides(config.levels).find(({ regex }) => regex.test(component));
+		if (match !== undefined) return match.level;
+	}
+	return config.level ?? 'debug';
+};
+
+export const matchesComponent = (pattern: string, component: string): boolean =>
+	pattern === component || globToRegExp(pattern).test(component);
+
+export const meetsThreshold = (level: LogLevel, threshold: LogThreshold): boolean =>
+	LEVEL_ORDER[level] >= LEVEL_ORDER[threshold];
+
+export const isLevelEnabled = (
+	config: LoggingMiddlewareConfig,
+	component: string | undefined,
+	level: LogLevel,
+): boolean => meetsThreshold(level, resolveComponentLevel(config, component));
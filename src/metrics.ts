@@ -0,0 +1,136 @@
+import type { MetricsRegistry, MetricsRegistryOptions, ProcedureOutcome } from './types.js';
+
+export const DEFAULT_DURATION_BUCKETS: readonly number[] = [
+	0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10,
+];
+
+export const PROMETHEUS_CONTENT_TYPE = 'text/plain; version=0.0.4; charset=utf-8';
+
+type Labels = Record<string, string>;
+
+interface Series<T> {
+	labels: Labels;
+	value: T;
+}
+
+interface HistogramValue {
+	buckets: number[];
+	sum: number;
+	count: number;
+}
+
+const escapeLabelValue = (value: string): string =>
+	value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n');
+
+const formatLabels = (labels: Labels): string => {
+	const pairs = Object.entries(labels).map(([key, value]) => `${key}="${escapeLabelValue(value)}"`);
+	return pairs.length === 0 ? '' : `{${pairs.join(',')}}`;
+};
+
+const formatValue = (value: number): string => {
+	if (value === Number.POSITIVE_INFINITY) return '+Inf';
+	if (value === Number.NEGATIVE_INFINITY) return '-Inf';
+	return String(value);
+};
+
+const getSeries = <T>(
+	series: Map<string, Series<T>>,
+	labels: Labels,
+	create: () => T,
+): Series<T> => {
+	const key = JSON.stringify(Object.values(labels));
+	let entry = series.get(key);
+	if (entry === undefined) {
+		entry = { labels, value: create() };
+		series.set(key, entry);
+	}
+	return entry;
+};
+
+const validateBuckets = (buckets: readonly number[]): number[] => {
+	buckets.forEach((bucket, index) => {
+		if (!Number.isFinite(bucket)) {
+			throw new Error(`Histogram buckets must be finite numbers, got ${bucket}`);
+		}
+		if (index > 0 && bucket <= buckets[index - 1]) {
+			throw new Error('Histogram buckets must be strictly increasing');
+		}
+	});
+	return [...buckets];
+};
+
+export const createMetricsRegistry = (options: MetricsRegistryOptions = {}): MetricsRegistry => {
+	const buckets = validateBuckets(options.buckets ?? DEFAULT_DURATION_BUCKETS);
+	const prefix = options.prefix ?? 'trpc_procedure';
+
+	const calls = new Map<string, Series<number>>();
+	const durations = new Map<string, Series<HistogramValue>>();
+	const inFlight = new Map<string, Series<number>>();
+
+	const callLabels = (
+		path: string,
+		type: string,
+		outcome: ProcedureOutcome,
+		code: string | undefined,
+	): Labels => (code === undefined ? { path, type, outcome } : { path, type, outcome, code });
+
+	const renderCounter = (name: string, help: string): string[] => [
+		`# HELP ${name} ${help}`,
+		`# TYPE ${name} counter`,
+		...[...calls.values()].map(({ labels, value }) => `${name}${formatLabels(labels)} ${value}`),
+	];
+
+	const renderHistogram = (name: string, help: string): string[] => [
+		`# HELP ${name} ${help}`,
+		`# TYPE ${name} histogram`,
+		...[...durations.values()].flatMap(({ labels, value }) => [
+			...[...buckets, Number.POSITIVE_INFINITY].map((bound, index) => {
+				const count = index < buckets.length ? value.buckets[index] : value.count;
+				return `${name}_bucket${formatLabels({ ...labels, le: formatValue(bound) })} ${count}`;
+			}),
+			`${name}_sum${formatLabels(labels)} ${formatValue(value.sum)}`,
+			`${name}_count${formatLabels(labels)} ${value.count}`,
+		]),
+	];
+
+	const renderGauge = (name: string, help: string): string[] => [
+		`# HELP ${name} ${help}`,
+		`# TYPE ${name} gauge`,
+		...[...inFlight.values()].map(({ labels, value }) => `${name}${formatLabels(labels)} ${value}`),
+	];
+
+	return {
+		procedureStarted: (path, type) => {
+			getSeries(inFlight, { path, type }, () => 0).value++;
+		},
+		procedureFinished: (path, type, result) => {
+			const gauge = getSeries(inFlight, { path, type }, () => 0);
+			gauge.value = Math.max(0, gauge.value - 1);
+
+			getSeries(calls, callLabels(path, type, result.outcome, result.code), () => 0).value++;
+
+			const seconds = result.durationMs / 1000;
+			const histogram = getSeries(durations, { path, type, outcome: result.outcome }, () => ({
+				buckets: buckets.map(() => 0),
+				sum: 0,
+				count: 0,
+			})).value;
+			buckets.forEach((bound, index) => {
+				if (seconds <= bound) histogram.buckets[index]++;
+			});
+			histogram.sum += seconds;
+			histogram.count++;
+		},
+		render: () =>
+			[
+				...renderCounter(`${prefix}_calls_total`, 'Total number of tRPC procedure calls.'),
+				...renderHistogram(`${prefix}_duration_seconds`, 'tRPC procedure latency in seconds.'),
+				...renderGauge(`${prefix}_in_flight`, 'Number of tRPC procedure calls in progress.'),
+			].join('\n') + '\n',
+		reset: () => {
+			calls.clear();
+			durations.clear();
+			inFlight.clear();
+		},
+	};
+};
@@ -10,11 +10,86 @@
 
 
 
+import { formatLegacyDuration, performanceClock } from './clock.js';
 import { getConfig } from './config.js';
-import type { LogContext } from './types.js';
+import { classifyError, isTRPCErrorLike } from './error-classification.js';
+import { defaultExtractors, runExtractors } from './extractors.js';
+import {
+	readProcedureInput,
+	resolvePayloadCapture,
+	isFailedResult,
+	shouldCaptureInput,
+	summarizeResult,
+	truncatePayload,
+} from './payload.js';
+import { getRedactor } from './redaction.js';
+import {
+	resolveParentTrace,
+	resolveRequestId,
+	runWithRequestContext,
+} from './request-context.js';
+import {
+	DEFAULT_ALWAYS_LOG_ABOVE_MS,
+	isSampled,
+	resolveSampleRate,
+	resolveSamplingKey,
+} from './sampling.js';
+import { serializeError } from './serialize-error.js';
+import { instrumentSubscription } from './subscription.js';
+import { isLevelEnabled } from './levels.js';
+import { findProcedureOverride } from './path-pattern.js';
+import {
+	generateSpanId,
+	generateTraceId,
+	isValidSpanId,
+	isValidTraceId,
+	TRACE_FLAG_SAMPLED,
+} from './trace-context.js';
+import type {
+	LogContext,
+	LogLevel,
+	LoggingMiddleware,
+	LoggingMiddlewareField,
+	LoggingMiddlewareMessages,
+	LoggingMiddlewareOptions,
+	TraceContext,
+} from './types.js';
+
+
+const DEFAULT_COMPONENT = 'trpc-middleware';
+
+const DEFAULT_MESSAGES: LoggingMiddlewareMessages = {
+	called: 'tRPC procedure called',
+	completed: 'tRPC procedure completed',
+	failed: 'tRPC procedure failed',
+	stillRunning: 'tRPC procedure still running',
+	subscriptionOpened: 'tRPC subscription opened',
+	subscriptionHeartbeat: 'tRPC subscription active',
+	subscriptionClosed: 'tRPC subscription closed',
+	subscriptionFailed: 'tRPC subscription failed',
+};
+
 
+const formatMessage = (template: string, context: LogContext): string =>
+	template.replace(/\{(\w+)\}/g, (match, key: string) =>
+		context[key] === undefined ? match : String(context[key]),
+	);
 
+const errorMessage = (error: unknown): string => {
+	if (error instanceof Error) return error.message;
+	if (isTRPCErrorLike(error) && typeof error.message === 'string') return error.message;
+	return String(error);
+};
 
+const selectFields = (
+	context: LogContext,
+	fields: Partial<Record<LoggingMiddlewareField, boolean>>,
+): LogContext => {
+	for (const [field, enabled] of Object.entries(fields)) {
+		if (enabled === false) delete context[field];
+	}
+	return context;
+};
 
 
 
@@ -23,80 +98,313 @@ import type { LogContext } from './types.js';
 
 
 
-export const loggingMiddleware = async (opts: {
-	ctx: Record<string, unknown>;
-	path?: string;
-	type?: string;
-	next: () => Promise<unknown>;
-}): Promise<unknown> => {
-	const { ctx, next } = opts;
-	const { logger } = getConfig();
-	const startTime = Date.now();
 
-	const session = ctx.session as
-		| { id?: string | null; userId?: string | null }
-		| null
-		| undefined;
 
-	const client = ctx.client as
-		| {
-				ipHash?: string;
-				deviceType?: string;
-				browser?: { name?: string } | null;
-		  }
-		| null
-		| undefined;
 
-	
-	const startContext: LogContext = {
-		component: 'trpc-middleware',
-		procedure: opts.path || 'unknown',
-		procedureType: opts.type || 'unknown',
+export const createLoggingMiddleware = (
+	options: LoggingMiddlewareOptions = {},
+): LoggingMiddleware => {
+	const component = options.component ?? DEFAULT_COMPONENT;
+	const messages: LoggingMiddlewareMessages = { ...DEFAULT_MESSAGES, ...options.messages };
+	const fields = options.fields ?? {};
+	const extractors = options.extractors ?? defaultExtractors;
+	const errorLevels = options.errorLevels ?? {};
+	const alwaysLogAboveMs = options.sampling?.alwaysLogAboveMs ?? DEFAULT_ALWAYS_LOG_ABOVE_MS;
+
+	return async (opts) => {
+		const { ctx, next } = opts;
+		const config = getConfig();
+		const logger = options.logger ?? config.logger;
+		const redact = config.redaction === undefined ? undefined : getRedactor(config.redaction);
+		const clock = options.clock ?? config.clock ?? performanceClock;
+		const startTime = clock.now();
+		const requestId = resolveRequestId(ctx);
+
+		const procedure = opts.path || 'unknown';
+		const procedureType = opts.type || 'unknown';
+		const capture = resolvePayloadCapture(options.payloads, procedure);
+		const sampleRate = resolveSampleRate(options.sampling, procedure);
+		const sampled = isSampled(resolveSamplingKey(options.sampling, ctx, requestId), sampleRate);
+		const slowThresholdMs =
+			findProcedureOverride(options.slow?.procedures, procedure) ?? options.slow?.thresholdMs;
+		const stillRunningAfterMs = options.slow?.stillRunningAfterMs;
+
+		const tracer = options.tracer ?? config.tracer;
+		const metrics = options.metrics ?? config.metrics;
+		const parentTrace = resolveParentTrace(ctx);
+		const span = tracer?.startSpan(procedure, {
+			attributes: { 'trpc.procedure': procedure, 'trpc.type': procedureType },
+			...(parentTrace !== undefined && {
+				parent: { traceId: parentTrace.traceId, spanId: parentTrace.spanId },
+			}),
+		});
+		const spanContext = span?.spanContext();
+		const recording =
+			spanContext !== undefined &&
+			isValidTraceId(spanContext.traceId) &&
+			isValidSpanId(spanContext.spanId);
+		const fallbackTrace = (): TraceContext | undefined => {
+			if (parentTrace !== undefined) return { ...parentTrace, spanId: generateSpanId() };
+			if (span === undefined) return undefined;
+			return { traceId: generateTraceId(), spanId: generateSpanId(), traceFlags: 0 };
+		};
+		const trace: TraceContext | undefined = recording
+			? {
+					...parentTrace,
+					traceId: spanContext.traceId,
+					spanId: spanContext.spanId,
+					traceFlags: parentTrace?.traceFlags ?? TRACE_FLAG_SAMPLED,
+				}
+			: fallbackTrace();
+
+		const emit = (level: LogLevel, template: string, context: LogContext): void => {
+			if (!isLevelEnabled(getConfig(), component, level)) return;
+			const selected = selectFields(context, fields);
+			const redacted = redact === undefined ? selected : redact(selected);
+			for (const key of ['input', 'output'] as const) {
+				if (key in redacted) {
+					redacted[key] = truncatePayload(redacted[key], options.payloads?.limits);
+				}
+			}
+			logger[level](formatMessage(template, redacted), redacted);
+		};
+
+		const emitFromTimer = (level: LogLevel, template: string, context: LogContext): void => {
+			try {
+				emit(level, template, context);
+			} catch {
+				// a throwing logger must not crash the process from a timer callback
+			}
+		};
+
+		const timing = (durationMs = clock.now() - startTime): LogContext =>
+			options.legacyDuration
+				? { durationMs, duration: formatLegacyDuration(durationMs) }
+				: { durationMs };
+
+		const withInput = async (context: LogContext, success: boolean): Promise<LogContext> => {
+			if (shouldCaptureInput(capture.input, success)) {
+				context.input = await readProcedureInput(opts);
+			}
+			return context;
+		};
+
+		const describeFailure = (error: unknown) => {
+			const { level, code, httpStatus, expected } = classifyError(error, errorLevels);
+			const message = errorMessage(error);
+			if (span !== undefined) {
+				span.recordException(error);
+				span.setAttribute('trpc.error_code', code);
+				span.setStatus('error', message);
+			}
+			const context: LogContext = {
+				success: false,
+				error: message,
+				errorType: error instanceof Error ? error.constructor.name : typeof error,
+				...(error instanceof Error && {
+					err: serializeError(error, options.errorSerialization ?? config.errorSerialization),
+				}),
+				code,
+				httpStatus,
+				expected,
+			};
+			return { level, code, context };
+		};
+
+		const logFailure = async (error: unknown, durationMs: number): Promise<void> => {
+			const failure = describeFailure(error);
+			span?.end();
+			metrics?.procedureFinished(procedure, procedureType, {
+				durationMs,
+				outcome: 'error',
+				code: failure.code,
+			});
+			const failedContext = await withInput(
+				{ ...baseContext, ...timing(durationMs), ...failure.context },
+				false,
+			);
+			emit(failure.level, messages.failed, failedContext);
+		};
+
+		const requestFields: LogContext = {
+			component,
+			procedure,
+			procedureType,
+			requestId,
+			...(trace !== undefined && {
+				traceId: trace.traceId,
+				spanId: trace.spanId,
+			}),
+		};
+
+		const extracted = runExtractors(
+			extractors,
+			ctx,
+			procedure,
+			procedureType,
+			(error, index) =>
+				emit('debug', 'Log context extractor failed', {
+					...requestFields,
+					extractor: index,
+					error: error instanceof Error ? error.message : String(error),
+				}),
+		);
+		const baseContext: LogContext = { ...requestFields, ...extracted };
+		const sampledContext: LogContext =
+			sampled && sampleRate < 1 ? { ...baseContext, sampleRate } : baseContext;
+
+		if (span !== undefined) {
+			const identity = redact === undefined ? extracted : redact(extracted);
+			if (typeof identity.userId === 'string') {
+				span.setAttribute('enduser.id', identity.userId);
+			}
+			if (typeof identity.sessionId === 'string') {
+				span.setAttribute('session.id', identity.sessionId);
+			}
+		}
+
+		const trackSubscription = (result: unknown, setupMs: number): unknown | undefined => {
+			let eventCount = 0;
+			let settled = false;
+			let heartbeat: ReturnType<typeof setInterval> | undefined;
+			const lifetime = () => ({ lifetimeMs: clock.now() - startTime, eventCount });
+			const settle = () => {
+				if (settled) return undefined;
+				settled = true;
+				clearInterval(heartbeat);
+				opts.signal?.removeEventListener('abort', close);
+				return lifetime();
+			};
+			const close = () => {
+				const stats = settle();
+				if (stats === undefined) return;
+				span?.end();
+				metrics?.procedureFinished(procedure, procedureType, {
+					durationMs: stats.lifetimeMs,
+					outcome: 'success',
+				});
+				if (sampled) {
+					emit('info', messages.subscriptionClosed, {
+						...sampledContext,
+						...stats,
+						success: true,
+					});
+				}
+			};
+
+			const instrumented = instrumentSubscription(result, {
+				onEvent: () => {
+					eventCount++;
+				},
+				onClose: close,
+				onError: (error) => {
+					const stats = settle();
+					if (stats === undefined) return;
+					const failure = describeFailure(error);
+					span?.end();
+					metrics?.procedureFinished(procedure, procedureType, {
+						durationMs: stats.lifetimeMs,
+						outcome: 'error',
+						code: failure.code,
+					});
+					emit(failure.level, messages.subscriptionFailed, {
+						...baseContext,
+						...stats,
+						...failure.context,
+					});
+				},
+			});
+			if (instrumented === undefined) return undefined;
+
+			if (sampled) {
+				emit('info', messages.subscriptionOpened, { ...sampledContext, ...timing(setupMs) });
+				const heartbeatIntervalMs = options.subscriptions?.heartbeatIntervalMs;
+				if (heartbeatIntervalMs !== undefined) {
+					heartbeat = setInterval(() => {
+						emitFromTimer('info', messages.subscriptionHeartbeat, {
+							...sampledContext,
+							...lifetime(),
+						});
+					}, heartbeatIntervalMs);
+					heartbeat.unref();
+				}
+			}
+			if (opts.signal?.aborted) close();
+			else opts.signal?.addEventListener('abort', close, { once: true });
+			return instrumented;
+		};
+
+		return runWithRequestContext({ requestId, trace }, async () => {
+			if (sampled) {
+				emit('info', messages.called, sampledContext);
+			}
+
+			const stillRunningTimer =
+				stillRunningAfterMs === undefined
+					? undefined
+					: setTimeout(() => {
+							emitFromTimer('warn', messages.stillRunning, {
+								...baseContext,
+								...timing(),
+								stillRunningAfterMs,
+							});
+						}, stillRunningAfterMs);
+			stillRunningTimer?.unref();
+
+			metrics?.procedureStarted(procedure, procedureType);
+
+			let result: unknown;
+			try {
+				result = await next();
+			} catch (error: unknown) {
+				await logFailure(error, clock.now() - startTime);
+				throw error;
+			} finally {
+				clearTimeout(stillRunningTimer);
+			}
+
+			const durationMs = clock.now() - startTime;
+
+			if (isFailedResult(result)) {
+				await logFailure(result.error, durationMs);
+				return result;
+			}
+
+			if (procedureType === 'subscription') {
+				const subscription = trackSubscription(result, durationMs);
+				if (subscription !== undefined) return subscription;
+			}
+
+			span?.end();
+			metrics?.procedureFinished(procedure, procedureType, { durationMs, outcome: 'success' });
+			const slow = slowThresholdMs !== undefined && durationMs >= slowThresholdMs;
+			const forced = slow || durationMs >= alwaysLogAboveMs;
+			if (!sampled && !forced) {
+				return result;
+			}
+			const completedContext = await withInput(
+				{
+					...(forced ? baseContext : sampledContext),
+					...timing(durationMs),
+					success: true,
+				},
+				true,
+			);
+			if (slow) {
+				completedContext.slow = true;
+				completedContext.slowThresholdMs = slowThresholdMs;
+			}
+			if (capture.output) {
+				completedContext.output = summarizeResult(result);
+			}
+			emit(slow ? 'warn' : 'info', messages.completed, completedContext);
+
+			return result;
+		});
 	};
+};
 
-	if (session?.id !== undefined && session.id !== null) {
-		startContext.sessionId = session.id;
-	}
-	if (session?.userId !== undefined && session.userId !== null) {
-		startContext.userId = session.userId;
-	}
-	if (client?.ipHash !== undefined) {
-		startContext.clientIpHash = client.ipHash;
-	}
-	if (client?.deviceType !== undefined) {
-		startContext.deviceType = client.deviceType;
-	}
-	if (client?.browser?.name !== undefined) {
-		startContext.browser = client.browser.name;
-	}
 
-	logger.info('tRPC procedure called', startContext);
-
-	try {
-		const result = await next();
-
-		const duration = Date.now() - startTime;
-		logger.info('tRPC procedure completed', {
-			component: 'trpc-middleware',
-			procedure: opts.path || 'unknown',
-			procedureType: opts.type || 'unknown',
-			duration: `${duration}ms`,
-			success: true,
-		} as LogContext);
-
-		return result;
-	} catch (error: unknown) {
-		const duration = Date.now() - startTime;
-		logger.error('tRPC procedure failed', {
-			component: 'trpc-middleware',
-			procedure: opts.path || 'unknown',
-			procedureType: opts.type || 'unknown',
-			duration: `${duration}ms`,
-			success: false,
-			error: error instanceof Error ? error.message : String(error),
-			errorType: error instanceof Error ? error.constructor.name : typeof error,
-		} as LogContext);
-
-		throw error;
-	}
-};
+
+
+export const loggingMiddleware: LoggingMiddleware = createLoggingMiddleware();
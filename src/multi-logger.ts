@@ -0,0 +1,60 @@
+import { meetsThreshold } from './levels.js';
+import type {
+	LogContext,
+	LogLevel,
+	MultiLogger,
+	MultiLoggerOptions,
+	MultiLoggerSink,
+	SinkDiagnostics,
+} from './types.js';
+
+export const createMultiLogger = (
+	sinks: readonly MultiLoggerSink[],
+	options: MultiLoggerOptions = {},
+): MultiLogger => {
+	const stats: SinkDiagnostics[] = sinks.map((sink, index) => ({
+		name: sink.name ?? `sink-${index}`,
+		written: 0,
+		dropped: 0,
+		errored: 0,
+	}));
+
+	const fail = (index: number, error: unknown): void => {
+		stats[index].errored++;
+		try {
+			options.onError?.(error, stats[index].name);
+		} catch {
+			// onError must not break delivery to the remaining sinks
+		}
+	};
+
+	const write = (level: LogLevel, message: string, context?: LogContext): void => {
+		sinks.forEach((sink, index) => {
+			try {
+				if (!meetsThreshold(level, sink.level ?? 'debug')) {
+					stats[index].dropped++;
+					return;
+				}
+				if (sink.filter !== undefined && !sink.filter({ level, message, context })) {
+					stats[index].dropped++;
+					return;
+				}
+				const result: unknown = sink.logger[level](message, context);
+				if (result instanceof Promise) {
+					result.catch((error: unknown) => fail(index, error));
+				}
+				stats[index].written++;
+			} catch (error: unknown) {
+				fail(index, error);
+			}
+		});
+	};
+
+	return {
+		debug: (message, context) => write('debug', message, context),
+		info: (message, context) => write('info', message, context),
+		warn: (message, context) => write('warn', message, context),
+		error: (message, context) => write('error', message, context),
+		diagnostics: () => stats.map((entry) => ({ ...entry })),
+	};
+};
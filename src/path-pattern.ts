@@ -0,0 +1,35 @@
+const matchSegments = (
+	pattern: readonly string[],
+	path: readonly string[],
+	pi: number,
+	si: number,
+): boolean => {
+	if (pi === pattern.length) return si === path.length;
+	if (pattern[pi] === '**') {
+		for (let next = si; next <= path.length; next++) {
+			if (matchSegments(pattern, path, pi + 1, next)) return true;
+		}
+		return false;
+	}
+	if (si === path.length) return false;
+	if (pattern[pi] !== '*' && pattern[pi] !== path[si]) return false;
+	return matchSegments(pattern, path, pi + 1, si + 1);
+};
+
+export const matchesPathPattern = (pattern: readonly string[], path: readonly string[]): boolean =>
+	matchSegments(pattern, path, 0, 0);
+
+export const matchesProcedure = (pattern: string, procedure: string): boolean =>
+	matchesPathPattern(pattern.split('.'), procedure.split('.'));
+
+export const findProcedureOverride = <T>(
+	overrides: Readonly<Record<string, T>> | undefined,
+	procedure: string,
+): T | undefined => {
+	if (overrides === undefined) return undefined;
+	if (Object.hasOwn(overrides, procedure)) return overrides[procedure];
+	for (const [pattern, value] of Object.entries(overrides)) {
+		if (matchesProcedure(pattern, procedure)) return value;
+	}
+	return undefined;
+};
@@ -0,0 +1,87 @@
+import { findProcedureOverride } from './path-pattern.js';
+import { isPlainObject } from './redaction.js';
+import type {
+	LoggingMiddlewareOpts,
+	PayloadCapture,
+	PayloadLimits,
+	PayloadLoggingOptions,
+} from './types.js';
+
+export const TRUNCATED = '[Truncated]';
+
+const DEFAULT_LIMITS: Required<PayloadLimits> = {
+	maxDepth: 4,
+	maxStringLength: 1024,
+	maxArrayLength: 20,
+};
+
+export const truncatePayload = (value: unknown, limits: PayloadLimits = {}): unknown => {
+	const { maxDepth, maxStringLength, maxArrayLength } = { ...DEFAULT_LIMITS, ...limits };
+	const seen = new WeakSet<object>();
+
+	const visit = (current: unknown, depth: number): unknown => {
+		if (typeof current === 'string') {
+			return current.length > maxStringLength
+				? `${current.slice(0, maxStringLength)}${TRUNCATED}`
+				: current;
+		}
+		if (!Array.isArray(current) && !isPlainObject(current)) return current;
+		if (seen.has(current)) return '[Circular]';
+		if (depth >= maxDepth) return TRUNCATED;
+		seen.add(current);
+
+		let result: unknown;
+		if (Array.isArray(current)) {
+			const items = current.slice(0, maxArrayLength).map((item) => visit(item, depth + 1));
+			if (current.length > maxArrayLength) items.push(TRUNCATED);
+			result = items;
+		} else {
+			const entries: Record<string, unknown> = {};
+			for (const [key, item] of Object.entries(current)) {
+				entries[key] = visit(item, depth + 1);
+			}
+			result = entries;
+		}
+
+		seen.delete(current);
+		return result;
+	};
+
+	return visit(value, 0);
+};
+
+export const resolvePayloadCapture = (
+	options: PayloadLoggingOptions | undefined,
+	procedure: string,
+): { input: PayloadCapture; output: boolean } => {
+	const override = findProcedureOverride(options?.procedures, procedure);
+	return {
+		input: override?.input ?? options?.input ?? 'never',
+		output: override?.output ?? options?.output ?? false,
+	};
+};
+
+export const shouldCaptureInput = (capture: PayloadCapture, success: boolean): boolean =>
+	capture === 'always' || capture === (success ? 'success' : 'failure');
+
+export const readProcedureInput = async (opts: LoggingMiddlewareOpts): Promise<unknown> => {
+	if (opts.input !== undefined) return opts.input;
+	if (opts.getRawInput !== undefined) {
+		try {
+			return await opts.getRawInput();
+		} catch {
+			return '[Unavailable]';
+		}
+	}
+	return opts.rawInput;
+};
+
+export const isFailedResult = (result: unknown): result is { ok: false; error: unknown } =>
+	isPlainObject(result) && result.ok === false && 'error' in result;
+
+export const summarizeResult = (result: unknown): unknown => {
+	if (isPlainObject(result) && typeof result.ok === 'boolean' && 'data' in result) {
+		return result.data;
+	}
+	return result;
+};
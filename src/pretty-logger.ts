@@ -0,0 +1,129 @@
+import { meetsThreshold } from './levels.js';
+import { safeStringify } from './safe-json.js';
+import { serializeError } from './serialize-error.js';
+import type { LogContext, Logger, LogLevel, LogStream, PrettyLoggerOptions } from './types.js';
+
+const BADGES: Readonly<Record<LogLevel, { label: string; color: number }>> = {
+	debug: { label: 'DEBUG', color: 90 },
+	info: { label: 'INFO ', color: 36 },
+	warn: { label: 'WARN ', color: 33 },
+	error: { label: 'ERROR', color: 31 },
+};
+
+const HEADER_KEYS = new Set(['component', 'procedure', 'durationMs', 'duration']);
+const MESSAGE_WIDTH = 28;
+const PROCEDURE_WIDTH = 32;
+const DURATION_WIDTH = 9;
+
+export const detectColorSupport = (
+	stream: LogStream & { isTTY?: boolean },
+	env: NodeJS.ProcessEnv = process.env,
+): boolean => {
+	if (env.FORCE_COLOR !== undefined) return env.FORCE_COLOR !== '0' && env.FORCE_COLOR !== 'false';
+	if (env.NO_COLOR !== undefined && env.NO_COLOR !== '') return false;
+	return stream.isTTY === true;
+};
+
+const pad2 = (value: number): string => String(value).padStart(2, '0');
+
+const formatTime = (time: Date): string =>
+	`${pad2(time.getHours())}:${pad2(time.getMinutes())}:${pad2(time.getSeconds())}.${String(
+		time.getMilliseconds(),
+	).padStart(3, '0')}`;
+
+export const formatPrettyDuration = (durationMs: number): string =>
+	durationMs < 1000 ? `${durationMs.toFixed(1)}ms` : `${(durationMs / 1000).toFixed(2)}s`;
+
+const ERROR_KEYS = new Set(['name', 'message', 'stack']);
+
+const hasStack = (value: unknown): value is Record<string, unknown> & { stack: string } =>
+	value !== null &&
+	typeof value === 'object' &&
+	typeof (value as { message?: unknown }).message === 'string' &&
+	typeof (value as { stack?: unknown }).stack === 'string';
+
+const indent = (text: string, spaces: number): string =>
+	text
+		.split('\n')
+		.map((line) => `${' '.repeat(spaces)}${line}`)
+		.join('\n');
+
+const formatValue = (value: unknown): string => {
+	const normalized = value instanceof Error ? serializeError(value) : value;
+	if (hasStack(normalized)) {
+		const extra = Object.entries(normalized).filter(([key]) => !ERROR_KEYS.has(key));
+		const details =
+			extra.length > 0 ? `\n${indent(safeStringify(Object.fromEntries(extra)), 6)}` : '';
+		return `\n${indent(normalized.stack, 6)}${details}`;
+	}
+	return typeof normalized === 'string' ? normalized : safeStringify(normalized);
+};
+
+export const formatPrettyLine = (
+	level: LogLevel,
+	message: string,
+	context: LogContext | undefined,
+	options: { colors: boolean; time?: Date },
+): string => {
+	const paint = (code: number, text: string): string =>
+		options.colors ? `\u001b[${code}m${text}\u001b[0m` : text;
+
+	const badge = BADGES[level];
+	const parts: string[] = [];
+	if (options.time !== undefined) parts.push(paint(90, formatTime(options.time)));
+	parts.push(paint(badge.color, badge.label));
+
+	const component = context?.component;
+	const prefix =
+		typeof component === 'string' && component !== '' ? `${paint(35, `[${component}]`)} ` : '';
+
+	let header = `${parts.join(' ')} ${prefix}${message}`;
+
+	const procedure = context?.procedure;
+	if (typeof procedure === 'string') {
+		const durationMs = context?.durationMs;
+		const duration =
+			typeof durationMs === 'number'
+				? formatPrettyDuration(durationMs)
+				: typeof context?.duration === 'string'
+					? context.duration
+					: '';
+		header = `${header}${' '.repeat(Math.max(1, MESSAGE_WIDTH - message.length))}${paint(
+			1,
+			procedure.padEnd(PROCEDURE_WIDTH),
+		)} ${paint(90, duration.padStart(DURATION_WIDTH))}`.trimEnd();
+	}
+
+	const lines = [header];
+	for (const [key, value] of Object.entries(context ?? {})) {
+		if (HEADER_KEYS.has(key) || value === undefined) continue;
+		const formatted = formatValue(value);
+		const separator = formatted.startsWith('\n') ? '' : ' ';
+		lines.push(`    ${paint(90, `${key}:`)}${separator}${formatted}`);
+	}
+	return `${lines.join('\n')}\n`;
+};
+
+export const createPrettyLogger = (options: PrettyLoggerOptions = {}): Logger => {
+	const stream = options.stream ?? process.stdout;
+	const threshold = options.level ?? 'debug';
+	const colors = options.colors ?? detectColorSupport(stream);
+	const timestamps = options.timestamps ?? true;
+
+	const write = (level: LogLevel, message: string, context?: LogContext): void => {
+		if (!meetsThreshold(level, threshold)) return;
+		stream.write(
+			formatPrettyLine(level, message, context, {
+				colors,
+				time: timestamps ? new Date() : undefined,
+			}),
+		);
+	};
+
+	return {
+		debug: (message, context) => write('debug', message, context),
+		info: (message, context) => write('info', message, context),
+		warn: (message, context) => write('warn', message, context),
+		error: (message, context) => write('error', message, context),
+	};
+};
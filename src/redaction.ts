@@ -0,0 +1,181 @@
+import { createHmac } from 'node:crypto';
+import { matchesPathPattern } from './path-pattern.js';
+import { toJsonValue } from './safe-json.js';
+import type {
+	LogContext,
+	Logger,
+	RedactionConfig,
+	RedactionPatternName,
+	RedactionRule,
+	RedactionStrategy,
+} from './types.js';
+
+export const REDACTED = '[REDACTED]';
+
+export const REDACTION_PATTERNS: Readonly<Record<RedactionPatternName, RegExp>> = {
+	email: /[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}/g,
+	jwt: /\beyJ[A-Za-z0-9_-]+\.[A-Za-z0-9_-]+\.[A-Za-z0-9_-]*/g,
+	card: /\b\d(?:[ -]?\d){12,18}\b/g,
+};
+
+const CIRCULAR = '[Circular]';
+
+export type Redactor = (context: LogContext) => LogContext;
+
+const passesLuhn = (match: string): boolean => {
+	const digits = match.replace(/\D/g, '');
+	let sum = 0;
+	for (let i = 0; i < digits.length; i++) {
+		let digit = Number(digits[digits.length - 1 - i]);
+		if (i % 2 === 1) {
+			digit *= 2;
+			if (digit > 9) digit -= 9;
+		}
+		sum += digit;
+	}
+	return sum % 10 === 0;
+};
+
+const PATTERN_VALIDATORS: Partial<Record<RedactionPatternName, (match: string) => boolean>> = {
+	card: passesLuhn,
+};
+
+interface CompiledPattern {
+	regex: RegExp;
+	validate?: (match: string) => boolean;
+}
+
+interface CompiledRule {
+	paths: string[][];
+	patterns: CompiledPattern[];
+	strategy: RedactionStrategy;
+}
+
+const redactedContexts = new WeakSet<object>();
+
+const compileRule = (rule: RedactionRule): CompiledRule => ({
+	paths: (rule.paths ?? []).map((path) => path.split('.')),
+	patterns: (rule.patterns ?? []).map((pattern) => {
+		const source = typeof pattern === 'string' ? REDACTION_PATTERNS[pattern] : pattern;
+		if (source === undefined) {
+			throw new Error(`Unknown redaction pattern: ${String(pattern)}`);
+		}
+		const flags = source.flags.includes('g') ? source.flags : `${source.flags}g`;
+		return {
+			regex: new RegExp(source.source, flags),
+			validate: typeof pattern === 'string' ? PATTERN_VALIDATORS[pattern] : undefined,
+		};
+	}),
+	strategy: rule.strategy ?? 'mask',
+});
+
+export const isPlainObject = (value: unknown): value is Record<string, unknown> => {
+	if (value === null || typeof value !== 'object') return false;
+	const proto = Object.getPrototypeOf(value);
+	return proto === Object.prototype || proto === null;
+};
+
+export const createRedactor = (config: RedactionConfig): Redactor => {
+	const rules = config.rules.map(compileRule);
+
+	if (rules.some((rule) => rule.strategy === 'hash') && !config.hashKey) {
+		throw new Error('Redaction rules with the "hash" strategy require a hashKey');
+	}
+
+	const hash = (value: unknown): string => {
+		const input = typeof value === 'string' ? value : JSON.stringify(value);
+		const digest = createHmac('sha256', config.hashKey as string)
+			.update(input ?? String(value))
+			.digest('hex');
+		return `hash:${digest.slice(0, 16)}`;
+	};
+
+	const replaceValue = (value: unknown, strategy: RedactionStrategy): unknown =>
+		strategy === 'hash' ? hash(value) : REDACTED;
+
+	const REMOVE = Symbol('remove');
+
+	const visit = (value: unknown, path: string[], seen: WeakSet<object>): unknown => {
+		for (const rule of path.length > 0 ? rules : []) {
+			if (rule.paths.some((pattern) => matchesPathPattern(pattern, path))) {
+				return rule.strategy === 'remove' ? REMOVE : replaceValue(value, rule.strategy);
+			}
+		}
+
+		if (typeof value === 'string') {
+			let result = value;
+			for (const rule of rules) {
+				for (const { regex, validate } of rule.patterns) {
+					if (rule.strategy === 'remove') {
+						const matches = [...result.matchAll(regex)].map(([match]) => match);
+						if (matches.some((match) => validate === undefined || validate(match))) return REMOVE;
+						continue;
+					}
+					result = result.replace(regex, (match) =>
+						validate === undefined || validate(match)
+							? String(replaceValue(match, rule.strategy))
+							: match,
+					);
+				}
+			}
+			return result;
+		}
+
+		if (typeof value === 'object' && value !== null && !Array.isArray(value)) {
+			if (!isPlainObject(value)) return visit(toJsonValue(value), path, seen);
+		}
+
+		if (Array.isArray(value) || isPlainObject(value)) {
+			if (seen.has(value)) return CIRCULAR;
+			seen.add(value);
+
+			if (Array.isArray(value)) {
+				const items: unknown[] = [];
+				value.forEach((item, index) => {
+					const redacted = visit(item, [...path, String(index)], seen);
+					if (redacted !== REMOVE) items.push(redacted);
+				});
+				seen.delete(value);
+				return items;
+			}
+
+			const result: Record<string, unknown> = {};
+			for (const [key, item] of Object.entries(value)) {
+				const redacted = visit(item, [...path, key], seen);
+				if (redacted !== REMOVE) result[key] = redacted;
+			}
+			seen.delete(value);
+			return result;
+		}
+
+		return value;
+	};
+
+	return (context) => {
+		const redacted = visit(context, [], new WeakSet()) as LogContext;
+		redactedContexts.add(redacted);
+		return redacted;
+	};
+};
+
+const redactorCache = new WeakMap<RedactionConfig, Redactor>();
+
+export const getRedactor = (config: RedactionConfig): Redactor => {
+	let redactor = redactorCache.get(config);
+	if (redactor === undefined) {
+		redactor = createRedactor(config);
+		redactorCache.set(config, redactor);
+	}
+	return redactor;
+};
+
+export const redactLogger = (logger: Logger, redactor: Redactor): Logger => {
+	const apply = (context: LogContext | undefined): LogContext | undefined =>
+		context === undefined || redactedContexts.has(context) ? context : redactor(context);
+	return {
+		debug: (message, context) => logger.debug(message, apply(context)),
+		info: (message, context) => logger.info(message, apply(context)),
+		warn: (message, context) => logger.warn(message, apply(context)),
+		error: (message, context) => logger.error(message, apply(context)),
+	};
+};
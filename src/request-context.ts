@@ -0,0 +1,104 @@
+import { AsyncLocalStorage } from 'node:async_hooks';
+import { randomUUID } from 'node:crypto';
+import {
+	formatTraceparent,
+	formatTracestate,
+	isValidSpanId,
+	isValidTraceId,
+	parseTraceparent,
+	parseTracestate,
+} from './trace-context.js';
+import type { TraceContext } from './types.js';
+
+export interface RequestContext {
+	requestId: string;
+	trace?: TraceContext;
+}
+
+const storage = new AsyncLocalStorage<RequestContext>();
+
+export function runWithRequestContext<T>(context: RequestContext, fn: () => T): T {
+	return storage.run(context, fn);
+}
+
+export function getRequestContext(): RequestContext | undefined {
+	return storage.getStore();
+}
+
+export function getRequestId(): string | undefined {
+	return storage.getStore()?.requestId;
+}
+
+const isValidTrace = (trace: TraceContext | undefined): trace is TraceContext =>
+	trace !== undefined && isValidTraceId(trace.traceId) && isValidSpanId(trace.spanId);
+
+export function getTraceContext(): TraceContext | undefined {
+	return storage.getStore()?.trace;
+}
+
+export function getTraceHeaders(): Record<string, string> {
+	const trace = getTraceContext();
+	if (!isValidTrace(trace)) return {};
+	const headers: Record<string, string> = { traceparent: formatTraceparent(trace) };
+	if (trace.traceState !== undefined && trace.traceState !== '') {
+		headers.tracestate = trace.traceState;
+	}
+	return headers;
+}
+
+export function getRequestHeader(ctx: Record<string, unknown>, name: string): string | undefined {
+	const req = ctx.req as { headers?: unknown } | null | undefined;
+	const candidates = [ctx.headers, req?.headers];
+
+	for (const headers of candidates) {
+		if (headers === null || typeof headers !== 'object') continue;
+
+		if (typeof (headers as { get?: unknown }).get === 'function') {
+			const value = (headers as { get(name: string): string | null }).get(name);
+			if (typeof value === 'string' && value !== '') return value;
+			continue;
+		}
+
+		const value = (headers as Record<string, unknown>)[name];
+		if (typeof value === 'string' && value !== '') return value;
+		if (Array.isArray(value) && typeof value[0] === 'string' && value[0] !== '') {
+			return value[0];
+		}
+	}
+
+	return undefined;
+}
+
+export function resolveRequestId(ctx: Record<string, unknown>): string {
+	if (typeof ctx.requestId === 'string' && ctx.requestId !== '') {
+		return ctx.requestId;
+	}
+
+	const headerId = getRequestHeader(ctx, 'x-request-id');
+	if (headerId !== undefined) return headerId;
+
+	const traceparent = parseTraceparent(getRequestHeader(ctx, 'traceparent'));
+	if (traceparent !== undefined) return traceparent.traceId;
+
+	const active = getRequestId();
+	if (active !== undefined) return active;
+
+	return randomUUID();
+}
+
+export function resolveParentTrace(ctx: Record<string, unknown>): TraceContext | undefined {
+	const active = getTraceContext();
+	if (isValidTrace(active)) return active;
+
+	const traceparent = parseTraceparent(getRequestHeader(ctx, 'traceparent'));
+	if (traceparent === undefined) return undefined;
+
+	const tracestate = parseTracestate(getRequestHeader(ctx, 'tracestate'));
+	return {
+		traceId: traceparent.traceId,
+		spanId: traceparent.parentId,
+		traceFlags: traceparent.traceFlags,
+		...(tracestate !== undefined &&
+			tracestate.size > 0 && { traceState: formatTracestate(tracestate) }),
+	};
+}
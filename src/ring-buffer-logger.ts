@@ -0,0 +1,99 @@
+import { matchesComponent, meetsThreshold } from './levels.js';
+import { matchesProcedure } from './path-pattern.js';
+import { safeStringify } from './safe-json.js';
+import type {
+	LogContext,
+	LogLevel,
+	RingBufferEntry,
+	RingBufferLogger,
+	RingBufferLoggerOptions,
+	RingBufferQuery,
+} from './types.js';
+
+const toTime = (value: Date | number): number => (value instanceof Date ? value.getTime() : value);
+
+const matchesText = (entry: RingBufferEntry, text: string | RegExp): boolean => {
+	const haystacks = [entry.message];
+	if (entry.context !== undefined) haystacks.push(safeStringify(entry.context));
+	if (typeof text === 'string') {
+		const needle = text.toLowerCase();
+		return haystacks.some((haystack) => haystack.toLowerCase().includes(needle));
+	}
+	return haystacks.some((haystack) => {
+		text.lastIndex = 0;
+		return text.test(haystack);
+	});
+};
+
+const matchesQuery = (entry: RingBufferEntry, query: RingBufferQuery): boolean => {
+	const context = entry.context ?? {};
+	if (query.level !== undefined && !meetsThreshold(entry.level, query.level)) return false;
+	if (query.component !== undefined) {
+		if (typeof context.component !== 'string') return false;
+		if (!matchesComponent(query.component, context.component)) return false;
+	}
+	if (query.procedure !== undefined) {
+		if (typeof context.procedure !== 'string') return false;
+		if (!matchesProcedure(query.procedure, context.procedure)) return false;
+	}
+	if (query.requestId !== undefined && context.requestId !== query.requestId) return false;
+	if (query.sessionId !== undefined && context.sessionId !== query.sessionId) return false;
+	if (query.userId !== undefined && context.userId !== query.userId) return false;
+	const time = entry.time.getTime();
+	if (query.since !== undefined && time < toTime(query.since)) return false;
+	if (query.until !== undefined && time > toTime(query.until)) return false;
+	if (query.text !== undefined && !matchesText(entry, query.text)) return false;
+	return true;
+};
+
+export const createRingBufferLogger = (options: RingBufferLoggerOptions): RingBufferLogger => {
+	const { capacity } = options;
+	if (!Number.isInteger(capacity) || capacity < 1) {
+		throw new Error(`Ring buffer capacity must be a positive integer, got ${capacity}`);
+	}
+
+	const threshold = options.level ?? 'debug';
+	const slots: (RingBufferEntry | undefined)[] = new Array(capacity);
+	let next = 0;
+	let count = 0;
+
+	const write = (level: LogLevel, message: string, context?: LogContext): void => {
+		if (!meetsThreshold(level, threshold)) return;
+		slots[next] = {
+			time: new Date(),
+			level,
+			message,
+			...(context === undefined ? {} : { context: { ...context } }),
+		};
+		next = (next + 1) % capacity;
+		count = Math.min(count + 1, capacity);
+	};
+
+	const entries = (): RingBufferEntry[] => {
+		const start = (next - count + capacity) % capacity;
+		const result: RingBufferEntry[] = [];
+		for (let i = 0; i < count; i++) {
+			result.push(slots[(start + i) % capacity] as RingBufferEntry);
+		}
+		return result;
+	};
+
+	return {
+		debug: (message, context) => write('debug', message, context),
+		info: (message, context) => write('info', message, context),
+		warn: (message, context) => write('warn', message, context),
+		error: (message, context) => write('error', message, context),
+		query: (query = {}) => {
+			const matched = entries().filter((entry) => matchesQuery(entry, query));
+			return query.limit === undefined
+				? matched
+				: matched.slice(Math.max(0, matched.length - query.limit));
+		},
+		clear: () => {
+			slots.fill(undefined);
+			next = 0;
+			count = 0;
+		},
+		size: () => count,
+	};
+};
@@ -0,0 +1,48 @@
+import { serializeError } from './serialize-error.js';
+
+export const toJsonValue = (value: unknown): unknown => {
+	const ancestors = new Set<object>();
+
+	const visit = (current: unknown): unknown => {
+		if (typeof current === 'bigint') return current.toString();
+		if (current === null || typeof current !== 'object') return current;
+		if (current instanceof Date) {
+			return Number.isNaN(current.getTime()) ? null : current.toISOString();
+		}
+		if (ancestors.has(current)) return '[Circular]';
+
+		ancestors.add(current);
+		let result: unknown;
+		if (current instanceof Error) {
+			result = visit(serializeError(current));
+		} else if (Array.isArray(current)) {
+			result = current.map((item) => (item === undefined ? null : visit(item)));
+		} else if (current instanceof Map) {
+			const entries: Record<string, unknown> = {};
+			for (const [key, item] of current) {
+				entries[String(key)] = visit(item);
+			}
+			result = entries;
+		} else if (current instanceof Set) {
+			result = [...current].map(visit);
+		} else if (typeof (current as { toJSON?: unknown }).toJSON === 'function') {
+			result = visit((current as { toJSON(): unknown }).toJSON());
+		} else {
+			const entries: Record<string, unknown> = {};
+			for (const [key, item] of Object.entries(current)) {
+				if (item === undefined || typeof item === 'function' || typeof item === 'symbol') {
+					continue;
+				}
+				entries[key] = visit(item);
+			}
+			result = entries;
+		}
+		ancestors.delete(current);
+		return result;
+	};
+
+	return visit(value);
+};
+
+export const safeStringify = (value: unknown): string =>
+	JSON.stringify(toJsonValue(value)) ?? 'null';
@@ -0,0 +1,38 @@
+import { findProcedureOverride } from './path-pattern.js';
+import type { SamplingOptions } from './types.js';
+
+export const DEFAULT_ALWAYS_LOG_ABOVE_MS = 1000;
+
+export const hashToUnitInterval = (key: string): number => {
+	let hash = 0x811c9dc5;
+	for (let i = 0; i < key.length; i++) {
+		hash ^= key.charCodeAt(i);
+		hash = Math.imul(hash, 0x01000193);
+	}
+	return (hash >>> 0) / 0x100000000;
+};
+
+export const resolveSampleRate = (options: SamplingOptions | undefined, procedure: string): number => {
+	const rate = findProcedureOverride(options?.procedures, procedure) ?? options?.rate ?? 1;
+	return Math.min(1, Math.max(0, rate));
+};
+
+export const resolveSamplingKey = (
+	options: SamplingOptions | undefined,
+	ctx: Record<string, unknown>,
+	requestId: string,
+): string => {
+	const key = options?.key ?? 'request';
+	if (typeof key === 'function') return key(ctx, requestId) ?? requestId;
+	if (key === 'session') {
+		const session = ctx.session as { id?: string | null } | null | undefined;
+		return session?.id ?? requestId;
+	}
+	return requestId;
+};
+
+export const isSampled = (key: string, rate: number): boolean => {
+	if (rate >= 1) return true;
+	if (rate <= 0) return false;
+	return hashToUnitInterval(key) < rate;
+};
@@ -0,0 +1,74 @@
+import type { ErrorStackMode, SerializeErrorOptions, SerializedError } from './types.js';
+
+const DEFAULT_MAX_DEPTH = 5;
+const STACK_MODES: readonly ErrorStackMode[] = ['full', 'app', 'none'];
+const RESERVED_KEYS = new Set(['name', 'message', 'stack', 'cause', 'errors']);
+
+export const resolveStackMode = (env: NodeJS.ProcessEnv = process.env): ErrorStackMode => {
+	const requested = env.LOG_ERROR_STACK as ErrorStackMode | undefined;
+	if (requested !== undefined && STACK_MODES.includes(requested)) return requested;
+	return env.NODE_ENV === 'production' ? 'app' : 'full';
+};
+
+const isAppFrame = (line: string): boolean =>
+	!line.includes('node_modules') && !line.includes('node:internal') && !line.includes('(node:');
+
+const formatStack = (stack: string | undefined, mode: ErrorStackMode): string | undefined => {
+	if (stack === undefined || mode === 'none') return undefined;
+	if (mode === 'full') return stack;
+	return stack
+		.split('\n')
+		.filter((line) => !line.trimStart().startsWith('at ') || isAppFrame(line))
+		.join('\n');
+};
+
+const serialize = (
+	error: unknown,
+	depth: number,
+	maxDepth: number,
+	stackMode: ErrorStackMode,
+	seen: Set<unknown>,
+): SerializedError | string => {
+	if (!(error instanceof Error)) {
+		return { name: error === null ? 'null' : typeof error, message: String(error) };
+	}
+	if (seen.has(error)) return '[Circular]';
+	if (depth > maxDepth) return '[Truncated]';
+	seen.add(error);
+
+	const serialized: SerializedError = {
+		name: error.name || error.constructor.name,
+		message: error.message,
+	};
+
+	const stack = formatStack(error.stack, stackMode);
+	if (stack !== undefined) serialized.stack = stack;
+
+	for (const [key, value] of Object.entries(error)) {
+		if (RESERVED_KEYS.has(key)) continue;
+		serialized[key] =
+			value instanceof Error ? serialize(value, depth + 1, maxDepth, stackMode, seen) : value;
+	}
+
+	if (error instanceof AggregateError && Array.isArray(error.errors)) {
+		serialized.errors = error.errors.map((member: unknown) =>
+			serialize(member, depth + 1, maxDepth, stackMode, seen),
+		);
+	}
+
+	if (error.cause !== undefined) {
+		serialized.cause = serialize(error.cause, depth + 1, maxDepth, stackMode, seen);
+	}
+
+	seen.delete(error);
+	return serialized;
+};
+
+export const serializeError = (
+	error: unknown,
+	options: SerializeErrorOptions = {},
+): SerializedError => {
+	const maxDepth = options.maxDepth ?? DEFAULT_MAX_DEPTH;
+	const stackMode = options.stack ?? resolveStackMode();
+	return serialize(error, 0, maxDepth, stackMode, new Set()) as SerializedError;
+};
@@ -0,0 +1,133 @@
+import { isPlainObject } from './redaction.js';
+
+export interface SubscriptionHooks {
+	onEvent(): void;
+	onClose(): void;
+	onError(error: unknown): void;
+}
+
+interface Observer {
+	next?(value: unknown): void;
+	error?(error: unknown): void;
+	complete?(): void;
+}
+
+interface Unsubscribable {
+	unsubscribe(): void;
+}
+
+interface ObservableLike {
+	subscribe(observer: Observer): Unsubscribable;
+}
+
+type Operator = (source: ObservableLike) => ObservableLike;
+
+export const isObservableLike = (value: unknown): value is ObservableLike =>
+	typeof value === 'object' &&
+	value !== null &&
+	typeof (value as { subscribe?: unknown }).subscribe === 'function';
+
+export const isAsyncIterableLike = (value: unknown): value is AsyncIterable<unknown> =>
+	typeof value === 'object' &&
+	value !== null &&
+	typeof (value as { [Symbol.asyncIterator]?: unknown })[Symbol.asyncIterator] === 'function';
+
+const isStream = (value: unknown): boolean => isObservableLike(value) || isAsyncIterableLike(value);
+
+const instrumentObservable = (source: ObservableLike, hooks: SubscriptionHooks): ObservableLike => {
+	const observable = {
+		subscribe: (observer: Observer): Unsubscribable => {
+			const subscription = source.subscribe({
+				next: (value) => {
+					hooks.onEvent();
+					observer.next?.(value);
+				},
+				error: (error) => {
+					hooks.onError(error);
+					observer.error?.(error);
+				},
+				complete: () => {
+					hooks.onClose();
+					observer.complete?.();
+				},
+			});
+			return {
+				unsubscribe: () => {
+					hooks.onClose();
+					subscription.unsubscribe();
+				},
+			};
+		},
+		pipe: (...operators: Operator[]): ObservableLike =>
+			operators.reduce<ObservableLike>((previous, operator) => operator(previous), observable),
+	};
+	return observable;
+};
+
+const instrumentAsyncIterable = (
+	source: AsyncIterable<unknown>,
+	hooks: SubscriptionHooks,
+): AsyncIterableIterator<unknown> => {
+	let iterator: AsyncIterator<unknown> | undefined;
+	let settled = false;
+	const sourceIterator = (): AsyncIterator<unknown> =>
+		(iterator ??= source[Symbol.asyncIterator]());
+	const settle = (error?: { error: unknown }): void => {
+		if (settled) return;
+		settled = true;
+		if (error === undefined) hooks.onClose();
+		else hooks.onError(error.error);
+	};
+
+	const instrumented: AsyncIterableIterator<unknown> = {
+		[Symbol.asyncIterator]: () => instrumented,
+		next: async () => {
+			if (settled) return { done: true, value: undefined };
+			try {
+				const result = await sourceIterator().next();
+				if (result.done === true) settle();
+				else hooks.onEvent();
+				return result;
+			} catch (error: unknown) {
+				settle({ error });
+				throw error;
+			}
+		},
+		return: async (value?: unknown) => {
+			try {
+				await sourceIterator().return?.(value);
+			} catch (error: unknown) {
+				settle({ error });
+				throw error;
+			}
+			settle();
+			return { done: true, value };
+		},
+		throw: async (error?: unknown) => {
+			settle({ error });
+			const current = sourceIterator();
+			if (current.throw !== undefined) return current.throw(error);
+			await current.return?.();
+			throw error;
+		},
+	};
+	return instrumented;
+};
+
+const instrumentStream = (stream: unknown, hooks: SubscriptionHooks): unknown =>
+	isObservableLike(stream)
+		? instrumentObservable(stream, hooks)
+		: instrumentAsyncIterable(stream as AsyncIterable<unknown>, hooks);
+
+export const instrumentSubscription = (
+	result: unknown,
+	hooks: SubscriptionHooks,
+): unknown | undefined => {
+	if (isPlainObject(result) && result.ok === true && isStream(result.data)) {
+		return { ...result, data: instrumentStream(result.data, hooks) };
+	}
+	if (isStream(result)) {
+		return instrumentStream(result, hooks);
+	}
+	return undefined;
+};
@@ -0,0 +1,155 @@
+import { AssertionError } from 'node:assert';
+import { isDeepStrictEqual } from 'node:util';
+import { configure, resetConfig } from './config.js';
+import { isPlainObject } from './redaction.js';
+import { safeStringify } from './safe-json.js';
+import type {
+	CapturingLogger,
+	LogContext,
+	LogEntry,
+	LogExpectation,
+	LogLevel,
+	LoggingMiddlewareConfig,
+} from './types.js';
+
+export type { CapturingLogger, LogEntry, LogExpectation } from './types.js';
+
+export const createCapturingLogger = (): CapturingLogger => {
+	const captured: LogEntry[] = [];
+
+	const write = (level: LogLevel, message: string, context?: LogContext): void => {
+		captured.push(context === undefined ? { level, message } : { level, message, context });
+	};
+
+	return {
+		debug: (message, context) => write('debug', message, context),
+		info: (message, context) => write('info', message, context),
+		warn: (message, context) => write('warn', message, context),
+		error: (message, context) => write('error', message, context),
+		entries: () => [...captured],
+		clear: () => {
+			captured.length = 0;
+		},
+	};
+};
+
+const matchesValue = (expected: unknown, actual: unknown): boolean => {
+	if (expected instanceof RegExp) {
+		return typeof actual === 'string' && expected.test(actual);
+	}
+	if (isPlainObject(expected)) {
+		return (
+			isPlainObject(actual) &&
+			Object.entries(expected).every(([key, value]) => matchesValue(value, actual[key]))
+		);
+	}
+	return isDeepStrictEqual(expected, actual);
+};
+
+const matchingKeys = (expectation: LogExpectation, entry: LogEntry): number => {
+	let score = 0;
+	if (expectation.level !== undefined && expectation.level === entry.level) score++;
+	if (expectation.message !== undefined && matchesValue(expectation.message, entry.message)) score++;
+	for (const [key, value] of Object.entries(expectation.context ?? {})) {
+		if (matchesValue(value, entry.context?.[key])) score++;
+	}
+	return score;
+};
+
+const matchesEntry = (expectation: LogExpectation, entry: LogEntry): boolean =>
+	(expectation.level === undefined || expectation.level === entry.level) &&
+	(expectation.message === undefined || matchesValue(expectation.message, entry.message)) &&
+	(expectation.context === undefined || matchesValue(expectation.context, entry.context ?? {}));
+
+const project = (expected: unknown, actual: unknown): unknown => {
+	if (!isPlainObject(expected) || !isPlainObject(actual)) return actual;
+	return Object.fromEntries(
+		Object.keys(expected).map((key) => [key, project(expected[key], actual[key])]),
+	);
+};
+
+const projectEntry = (expectation: LogExpectation, entry: LogEntry): Record<string, unknown> => {
+	const result: Record<string, unknown> = {};
+	if (expectation.level !== undefined) result.level = entry.level;
+	if (expectation.message !== undefined) result.message = entry.message;
+	if (expectation.context !== undefined) {
+		result.context = project(expectation.context, entry.context ?? {});
+	}
+	return result;
+};
+
+const describeExpectation = (expectation: LogExpectation): string =>
+	safeStringify({
+		...expectation,
+		...(expectation.message instanceof RegExp && { message: String(expectation.message) }),
+	});
+
+const describeEntries = (entries: readonly LogEntry[]): string =>
+	entries.length === 0
+		? '  (no log entries captured)'
+		: entries
+				.map((entry) => {
+					const context = entry.context === undefined ? '' : ` ${safeStringify(entry.context)}`;
+					return `  [${entry.level}] ${entry.message}${context}`;
+				})
+				.join('\n');
+
+export const expectLogged = (logger: CapturingLogger, expectation: LogExpectation): LogEntry => {
+	const entries = logger.entries();
+	const match = entries.find((entry) => matchesEntry(expectation, entry));
+	if (match !== undefined) return match;
+
+	const closest = entries.reduce<LogEntry | undefined>(
+		(best, entry) =>
+			best === undefined || matchingKeys(expectation, entry) > matchingKeys(expectation, best)
+				? entry
+				: best,
+		undefined,
+	);
+	throw new AssertionError({
+		message:
+			`Expected a log entry matching ${describeExpectation(expectation)}\n` +
+			`Captured entries:\n${describeEntries(entries)}`,
+		actual: closest === undefined ? undefined : projectEntry(expectation, closest),
+		expected: expectation,
+		operator: 'expectLogged',
+		stackStartFn: expectLogged,
+	});
+};
+
+export const expectNotLogged = (logger: CapturingLogger, expectation: LogExpectation): void => {
+	const matches = logger.entries().filter((entry) => matchesEntry(expectation, entry));
+	if (matches.length === 0) return;
+
+	throw new AssertionError({
+		message:
+			`Expected no log entry matching ${describeExpectation(expectation)}, ` +
+			`found ${matches.length}:\n${describeEntries(matches)}`,
+		actual: matches,
+		expected: [],
+		operator: 'expectNotLogged',
+		stackStartFn: expectNotLogged,
+	});
+};
+
+export function withCapturedLogs<T>(
+	fn: (logs: CapturingLogger) => T,
+	config: Omit<LoggingMiddlewareConfig, 'logger'> = {},
+): T {
+	const logs = createCapturingLogger();
+	configure({ ...config, logger: logs });
+
+	let result: T;
+	try {
+		result = fn(logs);
+	} catch (error: unknown) {
+		resetConfig();
+		throw error;
+	}
+
+	if (result instanceof Promise) {
+		return result.finally(resetConfig) as T;
+	}
+	resetConfig();
+	return result;
+}
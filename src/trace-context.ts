@@ -0,0 +1,84 @@
+import { randomBytes } from 'node:crypto';
+import type { TraceContext, TraceParent } from './types.js';
+
+export const TRACE_FLAG_SAMPLED = 0x01;
+
+const MAX_TRACESTATE_MEMBERS = 32;
+
+const TRACEPARENT_PATTERN = /^([0-9a-f]{2})-([0-9a-f]{32})-([0-9a-f]{16})-([0-9a-f]{2})(-.*)?$/;
+
+const TRACESTATE_KEY =
+	/^(?:[a-z][a-z0-9_\-*/]{0,255}|[a-z0-9][a-z0-9_\-*/]{0,240}@[a-z][a-z0-9_\-*/]{0,13})$/;
+
+const TRACESTATE_VALUE = /^[\x20-\x2b\x2d-\x3c\x3e-\x7e]{0,255}[\x21-\x2b\x2d-\x3c\x3e-\x7e]$/;
+
+const isAllZero = (hex: string): boolean => /^0+$/.test(hex);
+
+export const isValidTraceId = (traceId: string): boolean =>
+	/^[0-9a-f]{32}$/.test(traceId) && !isAllZero(traceId);
+
+export const isValidSpanId = (spanId: string): boolean =>
+	/^[0-9a-f]{16}$/.test(spanId) && !isAllZero(spanId);
+
+const randomHex = (bytes: number): string => {
+	let hex: string;
+	do {
+		hex = randomBytes(bytes).toString('hex');
+	} while (isAllZero(hex));
+	return hex;
+};
+
+export const generateTraceId = (): string => randomHex(16);
+
+export const generateSpanId = (): string => randomHex(8);
+
+export const parseTraceparent = (header: string | undefined): TraceParent | undefined => {
+	if (header === undefined) return undefined;
+	const match = TRACEPARENT_PATTERN.exec(header.trim());
+	if (match === null) return undefined;
+
+	const [, version, traceId, parentId, flags, rest] = match;
+	if (version === 'ff') return undefined;
+	if (version === '00' && rest !== undefined) return undefined;
+	if (isAllZero(traceId) || isAllZero(parentId)) return undefined;
+
+	return { version, traceId, parentId, traceFlags: parseInt(flags, 16) };
+};
+
+export const formatTraceparent = (context: TraceContext): string => {
+	if (!isValidTraceId(context.traceId)) {
+		throw new Error(`Invalid trace id: ${context.traceId}`);
+	}
+	if (!isValidSpanId(context.spanId)) {
+		throw new Error(`Invalid span id: ${context.spanId}`);
+	}
+	const flags = (context.traceFlags & 0xff).toString(16).padStart(2, '0');
+	return `00-${context.traceId}-${context.spanId}-${flags}`;
+};
+
+export const parseTracestate = (header: string | undefined): Map<string, string> | undefined => {
+	if (header === undefined) return undefined;
+	const entries = new Map<string, string>();
+
+	for (const member of header.split(',')) {
+		const trimmed = member.trim();
+		if (trimmed === '') continue;
+
+		const separator = trimmed.indexOf('=');
+		if (separator === -1) return undefined;
+		const key = trimmed.slice(0, separator);
+		const value = trimmed.slice(separator + 1);
+		if (!TRACESTATE_KEY.test(key) || !TRACESTATE_VALUE.test(value)) return undefined;
+		if (entries.has(key)) return undefined;
+		entries.set(key, value);
+	}
+
+	if (entries.size > MAX_TRACESTATE_MEMBERS) return undefined;
+	return entries;
+};
+
+export const formatTracestate = (entries: ReadonlyMap<string, string>): string =>
+	[...entries]
+		.slice(0, MAX_TRACESTATE_MEMBERS)
+		.map(([key, value]) => `${key}=${value}`)
+		.join(',');
@@ -0,0 +1,48 @@
+import { generateSpanId, generateTraceId } from './trace-context.js';
+import type { InMemoryTracer, RecordedSpan, Span } from './types.js';
+
+export const createInMemoryTracer = (): InMemoryTracer => {
+	const recorded: RecordedSpan[] = [];
+
+	return {
+		startSpan: (name, options = {}): Span => {
+			const record: RecordedSpan = {
+				name,
+				traceId: options.parent?.traceId ?? generateTraceId(),
+				spanId: generateSpanId(),
+				...(options.parent !== undefined && { parentSpanId: options.parent.spanId }),
+				attributes: { ...options.attributes },
+				status: 'unset',
+				exceptions: [],
+				startTime: Date.now(),
+			};
+			recorded.push(record);
+
+			return {
+				spanContext: () => ({ traceId: record.traceId, spanId: record.spanId }),
+				setAttribute: (key, value) => {
+					record.attributes[key] = value;
+				},
+				recordException: (error) => {
+					record.exceptions.push(error);
+				},
+				setStatus: (status, message) => {
+					record.status = status;
+					record.statusMessage = message;
+				},
+				end: () => {
+					record.endTime ??= Date.now();
+				},
+			};
+		},
+		spans: () =>
+			recorded.map((span) => ({
+				...span,
+				attributes: { ...span.attributes },
+				exceptions: [...span.exceptions],
+			})),
+		clear: () => {
+			recorded.length = 0;
+		},
+	};
+};
@@ -11,6 +11,9 @@
 export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
 
 
+export type LogThreshold = LogLevel | 'silent';
+
+
 export interface LogContext {
 	component?: string;
 	[key: string]: unknown;
@@ -22,12 +25,444 @@ export interface Logger {
 	info(message: string, context?: LogContext): void;
 	warn(message: string, context?: LogContext): void;
 	error(message: string, context?: LogContext): void;
+	child?(bindings: LogContext): Logger;
+}
+
+
+export interface ComponentLogger extends Logger {
+	child(bindings: LogContext): ComponentLogger;
+}
+
+
+
+
+
+export interface LogEntry {
+	level: LogLevel;
+	message: string;
+	context?: LogContext;
+}
+
+
+export interface MultiLoggerSink {
+	logger: Logger;
+	name?: string;
+	level?: LogThreshold;
+	filter?: (entry: LogEntry) => boolean;
+}
+
+
+export interface MultiLoggerOptions {
+	onError?: (error: unknown, sink: string) => void;
+}
+
+
+export interface SinkDiagnostics {
+	name: string;
+	written: number;
+	dropped: number;
+	errored: number;
+}
+
+
+export interface MultiLogger extends Logger {
+	diagnostics(): SinkDiagnostics[];
+}
+
+
+export type OverflowPolicy = 'drop-oldest' | 'drop-newest' | 'block';
+
+
+export interface BufferedLoggerOptions {
+	maxQueueSize?: number;
+	batchSize?: number;
+	flushIntervalMs?: number;
+	overflow?: OverflowPolicy;
+	drainOnExit?: boolean;
+	shutdownTimeoutMs?: number;
+}
+
+
+export interface BufferedLoggerStats {
+	queued: number;
+	written: number;
+	dropped: number;
+	blocked: number;
+	errored: number;
+}
+
+
+export interface BufferedLogger extends Logger {
+	flush(): Promise<void>;
+	close(): Promise<void>;
+	stats(): BufferedLoggerStats;
+}
+
+
+export interface FileLoggerOptions {
+	path: string;
+	level?: LogThreshold;
+	base?: LogContext;
+	maxSize?: number;
+	rotateDaily?: boolean;
+	maxFiles?: number;
+	compress?: boolean;
+	reopenOnSighup?: boolean;
+	onError?: (error: unknown) => void;
+}
+
+
+export interface FileLogger extends Logger {
+	rotate(): void;
+	reopen(): void;
+	close(): Promise<void>;
+}
+
+
+export interface RingBufferLoggerOptions {
+	capacity: number;
+	level?: LogThreshold;
+}
+
+
+export interface RingBufferEntry extends LogEntry {
+	time: Date;
+}
+
+
+export interface RingBufferQuery {
+	level?: LogLevel;
+	component?: string;
+	procedure?: string;
+	requestId?: string;
+	sessionId?: string;
+	userId?: string;
+	since?: Date | number;
+	until?: Date | number;
+	text?: string | RegExp;
+	limit?: number;
+}
+
+
+export interface RingBufferLogger extends Logger {
+	query(query?: RingBufferQuery): RingBufferEntry[];
+	clear(): void;
+	size(): number;
+}
+
+
+export interface CapturingLogger extends Logger {
+	entries(): LogEntry[];
+	clear(): void;
+}
+
+
+export interface LogExpectation {
+	level?: LogLevel;
+	message?: string | RegExp;
+	context?: LogContext;
+}
+
+
+export interface LogStream {
+	write(chunk: string): unknown;
+}
+
+
+export interface JsonLoggerOptions {
+	stream?: LogStream;
+	level?: LogThreshold;
+	base?: LogContext;
+}
+
+
+export interface PrettyLoggerOptions {
+	stream?: LogStream & { isTTY?: boolean };
+	level?: LogThreshold;
+	colors?: boolean;
+	timestamps?: boolean;
+}
+
+
+export interface Clock {
+	now(): number;
+}
+
+
+export type SpanAttributeValue = string | number | boolean;
+
+
+export type SpanAttributes = Record<string, SpanAttributeValue>;
+
+
+export type SpanStatus = 'unset' | 'ok' | 'error';
+
+
+export interface SpanContext {
+	traceId: string;
+	spanId: string;
+}
+
+
+export interface TraceContext extends SpanContext {
+	traceFlags: number;
+	traceState?: string;
+}
+
+
+export interface TraceParent {
+	version: string;
+	traceId: string;
+	parentId: string;
+	traceFlags: number;
+}
+
+
+export interface SpanOptions {
+	attributes?: SpanAttributes;
+	parent?: SpanContext;
+}
+
+
+export interface Span {
+	spanContext(): SpanContext;
+	setAttribute(key: string, value: SpanAttributeValue): void;
+	recordException(error: unknown): void;
+	setStatus(status: SpanStatus, message?: string): void;
+	end(): void;
+}
+
+
+export interface Tracer {
+	startSpan(name: string, options?: SpanOptions): Span;
 }
 
 
+export interface RecordedSpan extends SpanContext {
+	name: string;
+	parentSpanId?: string;
+	attributes: SpanAttributes;
+	status: SpanStatus;
+	statusMessage?: string;
+	exceptions: unknown[];
+	startTime: number;
+	endTime?: number;
+}
+
+
+export interface InMemoryTracer extends Tracer {
+	spans(): RecordedSpan[];
+	clear(): void;
+}
+
+
+export type ProcedureOutcome = 'success' | 'error';
 
 
+export interface ProcedureResult {
+	durationMs: number;
+	outcome: ProcedureOutcome;
+	code?: string;
+}
+
+
+export interface MetricsRegistryOptions {
+	buckets?: readonly number[];
+	prefix?: string;
+}
+
+
+export interface MetricsRegistry {
+	procedureStarted(path: string, type: string): void;
+	procedureFinished(path: string, type: string, result: ProcedureResult): void;
+	render(): string;
+	reset(): void;
+}
+
 
 export interface LoggingMiddlewareConfig {
 	logger: Logger;
+	level?: LogThreshold;
+	levels?: Record<string, LogThreshold>;
+	clock?: Clock;
+	errorSerialization?: SerializeErrorOptions;
+	redaction?: RedactionConfig;
+	tracer?: Tracer;
+	metrics?: MetricsRegistry;
+}
+
+
+export type RedactionStrategy = 'remove' | 'mask' | 'hash';
+
+
+export type RedactionPatternName = 'email' | 'jwt' | 'card';
+
+
+export interface RedactionRule {
+	paths?: string[];
+	patterns?: Array<RedactionPatternName | RegExp>;
+	strategy?: RedactionStrategy;
+}
+
+
+export interface RedactionConfig {
+	rules: RedactionRule[];
+	hashKey?: string;
+}
+
+
+export type ErrorStackMode = 'full' | 'app' | 'none';
+
+
+export interface SerializeErrorOptions {
+	maxDepth?: number;
+	stack?: ErrorStackMode;
+}
+
+
+export interface SerializedError {
+	name: string;
+	message: string;
+	stack?: string;
+	cause?: SerializedError | string;
+	errors?: Array<SerializedError | string>;
+	[key: string]: unknown;
+}
+
+
+export interface LoggingMiddlewareOpts {
+	ctx: Record<string, unknown>;
+	path?: string;
+	type?: string;
+	input?: unknown;
+	rawInput?: unknown;
+	getRawInput?: () => Promise<unknown>;
+	signal?: AbortSignal;
+	next: () => Promise<unknown>;
+}
+
+
+export interface SubscriptionLoggingOptions {
+	heartbeatIntervalMs?: number;
+}
+
+
+export interface SlowProcedureOptions {
+	thresholdMs?: number;
+	procedures?: Record<string, number>;
+	stillRunningAfterMs?: number;
+}
+
+
+export type SamplingKeyFn = (
+	ctx: Record<string, unknown>,
+	requestId: string,
+) => string | undefined;
+
+
+export interface SamplingOptions {
+	rate?: number;
+	procedures?: Record<string, number>;
+	key?: 'request' | 'session' | SamplingKeyFn;
+	alwaysLogAboveMs?: number;
+}
+
+
+export type PayloadCapture = 'never' | 'always' | 'success' | 'failure';
+
+
+export interface PayloadLimits {
+	maxDepth?: number;
+	maxStringLength?: number;
+	maxArrayLength?: number;
+}
+
+
+export interface PayloadCaptureOverride {
+	input?: PayloadCapture;
+	output?: boolean;
+}
+
+
+export interface PayloadLoggingOptions extends PayloadCaptureOverride {
+	procedures?: Record<string, PayloadCaptureOverride>;
+	limits?: PayloadLimits;
+}
+
+
+export interface ErrorClassification {
+	code: string;
+	httpStatus: number;
+	expected: boolean;
+	level: LogLevel;
+}
+
+
+export type ContextExtractor = (
+	ctx: Record<string, unknown>,
+	path: string,
+	type: string,
+) => LogContext | null | undefined;
+
+
+export type LoggingMiddleware = (opts: LoggingMiddlewareOpts) => Promise<unknown>;
+
+
+export interface LoggingMiddlewareMessages {
+	called: string;
+	completed: string;
+	failed: string;
+	stillRunning: string;
+	subscriptionOpened: string;
+	subscriptionHeartbeat: string;
+	subscriptionClosed: string;
+	subscriptionFailed: string;
+}
+
+
+export type LoggingMiddlewareField =
+	| 'procedureType'
+	| 'requestId'
+	| 'traceId'
+	| 'spanId'
+	| 'sessionId'
+	| 'userId'
+	| 'clientIpHash'
+	| 'deviceType'
+	| 'browser'
+	| 'durationMs'
+	| 'duration'
+	| 'success'
+	| 'error'
+	| 'errorType'
+	| 'err'
+	| 'code'
+	| 'httpStatus'
+	| 'expected'
+	| 'input'
+	| 'output'
+	| 'sampleRate'
+	| 'slow'
+	| 'slowThresholdMs'
+	| 'stillRunningAfterMs'
+	| 'lifetimeMs'
+	| 'eventCount';
+
+
+export interface LoggingMiddlewareOptions {
+	logger?: Logger;
+	component?: string;
+	messages?: Partial<LoggingMiddlewareMessages>;
+	fields?: Partial<Record<LoggingMiddlewareField, boolean>>;
+	extractors?: readonly ContextExtractor[];
+	errorLevels?: Partial<Record<string, LogLevel>>;
+	errorSerialization?: SerializeErrorOptions;
+	payloads?: PayloadLoggingOptions;
+	sampling?: SamplingOptions;
+	slow?: SlowProcedureOptions;
+	subscriptions?: SubscriptionLoggingOptions;
+	clock?: Clock;
+	tracer?: Tracer;
+	metrics?: MetricsRegistry;
+	legacyDuration?: boolean;
 }
@@ -0,0 +1,282 @@
+import { Writable } from 'node:stream';
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { createBufferedLogger } from '../src/index.js';
+import type { BufferedLogger, Logger } from '../src/index.js';
+import { makeMockLogger } from './helpers.js';
+
+const open: BufferedLogger[] = [];
+const track = (logger: BufferedLogger) => {
+	open.push(logger);
+	return logger;
+};
+
+afterEach(async () => {
+	await Promise.all(open.splice(0).map((logger) => logger.close()));
+	vi.useRealTimers();
+});
+
+describe('createBufferedLogger', () => {
+	it('should not write synchronously', () => {
+		const target = makeMockLogger();
+		const log = track(createBufferedLogger(target));
+		log.info('later');
+		expect(target.info).not.toHaveBeenCalled();
+		expect(log.stats().queued).toBe(1);
+	});
+
+	it('should deliver queued entries in order on flush()', async () => {
+		const target = makeMockLogger();
+		const log = track(createBufferedLogger(target));
+		log.info('one', { n: 1 });
+		log.error('two');
+		await log.flush();
+		expect(target.info).toHaveBeenCalledWith('one', { n: 1 });
+		expect(target.error).toHaveBeenCalledWith('two', undefined);
+		expect(log.stats()).toEqual({ queued: 0, written: 2, dropped: 0, blocked: 0, errored: 0 });
+	});
+
+	it('should flush on the configured interval', async () => {
+		vi.useFakeTimers();
+		const target = makeMockLogger();
+		const log = track(createBufferedLogger(target, { flushIntervalMs: 200 }));
+		log.info('tick');
+		await vi.advanceTimersByTimeAsync(199);
+		expect(target.info).not.toHaveBeenCalled();
+		await vi.advanceTimersByTimeAsync(1);
+		expect(target.info).toHaveBeenCalledTimes(1);
+	});
+
+	it('should flush early once a batch is full', async () => {
+		const target = makeMockLogger();
+		const log = track(createBufferedLogger(target, { batchSize: 2, flushIntervalMs: 60_000 }));
+		log.info('a');
+		log.info('b');
+		await new Promise((resolve) => setImmediate(resolve));
+		await log.flush();
+		expect(target.info).toHaveBeenCalledTimes(2);
+	});
+
+	it('should drop the oldest entries when full', async () => {
+		const target = makeMockLogger();
+		const log = track(createBufferedLogger(target, { maxQueueSize: 2, batchSize: 10 }));
+		log.info('1');
+		log.info('2');
+		log.info('3');
+		await log.flush();
+		expect(target.info.mock.calls.map((c) => c[0])).toEqual(['2', '3']);
+		expect(log.stats().dropped).toBe(1);
+	});
+
+	it('should drop the newest entries when configured', async () => {
+		const target = makeMockLogger();
+		const log = track(
+			createBufferedLogger(target, { maxQueueSize: 2, batchSize: 10, overflow: 'drop-newest' }),
+		);
+		log.info('1');
+		log.info('2');
+		log.info('3');
+		await log.flush();
+		expect(target.info.mock.calls.map((c) => c[0])).toEqual(['1', '2']);
+		expect(log.stats().dropped).toBe(1);
+	});
+
+	it('should block and count by draining a batch inline', async () => {
+		const target = makeMockLogger();
+		const log = track(
+			createBufferedLogger(target, { maxQueueSize: 2, batchSize: 1, overflow: 'block' }),
+		);
+		log.info('1');
+		log.info('2');
+		log.info('3');
+		expect(target.info).toHaveBeenCalledWith('1', undefined);
+		await log.flush();
+		expect(target.info.mock.calls.map((c) => c[0])).toEqual(['1', '2', '3']);
+		expect(log.stats()).toEqual(expect.objectContaining({ blocked: 1, dropped: 0, written: 3 }));
+	});
+
+	it('should write NDJSON batches to a stream', async () => {
+		const chunks: string[] = [];
+		const stream = new Writable({
+			write(chunk, _encoding, callback) {
+				chunks.push(chunk.toString());
+				callback();
+			},
+		});
+		const log = track(createBufferedLogger(stream, { batchSize: 10 }));
+		log.info('a', { n: 1 });
+		log.warn('b');
+		await log.flush();
+		expect(chunks).toHaveLength(1);
+		const lines = chunks[0].trim().split('\n').map((line) => JSON.parse(line));
+		expect(lines).toEqual([
+			expect.objectContaining({ level: 'info', msg: 'a', n: 1 }),
+			expect.objectContaining({ level: 'warn', msg: 'b' }),
+		]);
+	});
+
+	it('should wait for drain when the stream applies backpressure', async () => {
+		let release: () => void = () => {};
+		const stream = new Writable({
+			highWaterMark: 1,
+			write(_chunk, _encoding, callback) {
+				release = callback;
+			},
+		});
+		const log = track(createBufferedLogger(stream, { batchSize: 1 }));
+		log.info('a');
+		log.info('b');
+		let done = false;
+		const flushed = log.flush().then(() => {
+			done = true;
+		});
+		await new Promise((resolve) => setImmediate(resolve));
+		expect(done).toBe(false);
+		release();
+		await new Promise((resolve) => setImmediate(resolve));
+		release();
+		await flushed;
+		expect(done).toBe(true);
+	});
+
+	it('should count a batch as errored when the stream rejects the write', async () => {
+		const stream = new Writable({
+			write(_chunk, _encoding, callback) {
+				callback(new Error('disk full'));
+			},
+		});
+		const log = track(createBufferedLogger(stream));
+		log.info('a');
+		log.info('b');
+		await log.flush();
+		expect(log.stats()).toMatchObject({ written: 0, errored: 2 });
+	});
+
+	it('should not hang when the stream is destroyed while waiting', async () => {
+		const stream = new Writable({
+			highWaterMark: 1,
+			write() {
+				// never completes
+			},
+		});
+		const log = track(createBufferedLogger(stream, { batchSize: 1 }));
+		log.info('a');
+		log.info('b');
+		const flushed = log.flush();
+		await new Promise((resolve) => setImmediate(resolve));
+		stream.destroy();
+		await flushed;
+		expect(log.stats()).toMatchObject({ written: 0, errored: 2, queued: 0 });
+	});
+
+	it('should give up on a stalled stream after the shutdown timeout', async () => {
+		const stream = new Writable({
+			highWaterMark: 1,
+			write() {
+				// never completes
+			},
+		});
+		const log = createBufferedLogger(stream, { batchSize: 1, shutdownTimeoutMs: 20 });
+		log.info('a');
+		log.info('b');
+		log.info('c');
+		await log.close();
+		expect(log.stats()).toMatchObject({ written: 0, dropped: 3, errored: 0, queued: 0 });
+		stream.destroy();
+		await new Promise((resolve) => setImmediate(resolve));
+		expect(log.stats()).toMatchObject({ written: 0, dropped: 3, errored: 0 });
+	});
+
+	it('should count the batch stuck in a stalled write as dropped on close', async () => {
+		const stream = new Writable({
+			write() {
+				// never completes
+			},
+		});
+		const log = createBufferedLogger(stream, { shutdownTimeoutMs: 20 });
+		log.info('a');
+		log.info('b');
+		await log.close();
+		expect(log.stats()).toMatchObject({ written: 0, dropped: 2, queued: 0 });
+		stream.destroy();
+	});
+
+	it('should bound flush on a stalled stream by the shutdown timeout', async () => {
+		const stream = new Writable({
+			highWaterMark: 1,
+			write() {
+				// never completes
+			},
+		});
+		const log = track(createBufferedLogger(stream, { batchSize: 1, shutdownTimeoutMs: 20 }));
+		log.info('a');
+		log.info('b');
+		await log.flush();
+		expect(log.stats()).toMatchObject({ written: 0, dropped: 0, queued: 1 });
+		stream.destroy();
+	});
+
+	it('should finish SIGTERM handling when the stream stalls', async () => {
+		const stream = new Writable({
+			write() {
+				// never completes
+			},
+		});
+		const keepAlive = () => {};
+		process.on('SIGTERM', keepAlive);
+		try {
+			const log = createBufferedLogger(stream, { drainOnExit: true, shutdownTimeoutMs: 20 });
+			log.info('a');
+			log.info('b');
+			process.emit('SIGTERM', 'SIGTERM');
+			await new Promise((resolve) => setTimeout(resolve, 60));
+			expect(log.stats()).toMatchObject({ written: 0, queued: 0 });
+		} finally {
+			process.off('SIGTERM', keepAlive);
+			stream.destroy();
+		}
+	});
+
+	it('should count errors from a failing target', async () => {
+		const target: Logger = {
+			...makeMockLogger(),
+			info: () => {
+				throw new Error('down');
+			},
+		};
+		const log = track(createBufferedLogger(target));
+		log.info('x');
+		await log.flush();
+		expect(log.stats().errored).toBe(1);
+	});
+
+	it('should flush on close() and drop later writes', async () => {
+		const target = makeMockLogger();
+		const log = createBufferedLogger(target);
+		log.info('before');
+		await log.close();
+		log.info('after');
+		await log.flush();
+		expect(target.info).toHaveBeenCalledTimes(1);
+		expect(log.stats().dropped).toBe(1);
+	});
+
+	it('should register and remove exit hooks', async () => {
+		const beforeExit = process.listenerCount('beforeExit');
+		const sigterm = process.listenerCount('SIGTERM');
+		const log = createBufferedLogger(makeMockLogger(), { drainOnExit: true });
+		expect(process.listenerCount('beforeExit')).toBe(beforeExit + 1);
+		expect(process.listenerCount('SIGTERM')).toBe(sigterm + 1);
+		await log.close();
+		expect(process.listenerCount('beforeExit')).toBe(beforeExit);
+		expect(process.listenerCount('SIGTERM')).toBe(sigterm);
+	});
+
+	it('should drain on beforeExit', async () => {
+		const target = makeMockLogger();
+		const log = track(createBufferedLogger(target, { drainOnExit: true }));
+		log.info('pending');
+		process.emit('beforeExit', 0);
+		await log.flush();
+		expect(target.info).toHaveBeenCalledTimes(1);
+	});
+});
@@ -0,0 +1,110 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { configure, resetConfig, createLoggingMiddleware, loggingMiddleware } from '../src/index.js';
+import type { LogContext } from '../src/index.js';
+import { createOptsFactory, makeMockLogger } from './helpers.js';
+
+const makeOpts = createOptsFactory({
+	ctx: {
+		session: { id: 'sess-1', userId: 'user-1' },
+		client: { ipHash: 'abc123', deviceType: 'desktop', browser: { name: 'Chrome' } },
+	},
+});
+
+beforeEach(() => {
+	resetConfig();
+});
+
+afterEach(() => {
+	resetConfig();
+});
+
+describe('createLoggingMiddleware', () => {
+	it('should keep loggingMiddleware as a default instance', async () => {
+		const mock = makeMockLogger();
+		configure({ logger: mock });
+		await loggingMiddleware(makeOpts());
+		expect(mock.info).toHaveBeenCalledWith(
+			'tRPC procedure called',
+			expect.objectContaining({ component: 'trpc-middleware' }),
+		);
+	});
+
+	it('should use its own logger instead of the global config', async () => {
+		const global = makeMockLogger();
+		const own = makeMockLogger();
+		configure({ logger: global });
+		const middleware = createLoggingMiddleware({ logger: own });
+		await middleware(makeOpts());
+		expect(own.info).toHaveBeenCalledTimes(2);
+		expect(global.info).not.toHaveBeenCalled();
+	});
+
+	it('should fall back to the global logger resolved at call time', async () => {
+		const middleware = createLoggingMiddleware({ component: 'admin-api' });
+		const mock = makeMockLogger();
+		configure({ logger: mock });
+		await middleware(makeOpts());
+		expect(mock.info).toHaveBeenCalledWith(
+			'tRPC procedure completed',
+			expect.objectContaining({ component: 'admin-api' }),
+		);
+	});
+
+	it('should isolate settings between instances', async () => {
+		const publicLog = makeMockLogger();
+		const adminLog = makeMockLogger();
+		const publicApi = createLoggingMiddleware({ logger: publicLog, component: 'public-api' });
+		const adminApi = createLoggingMiddleware({ logger: adminLog, component: 'admin-api' });
+		await Promise.all([publicApi(makeOpts()), adminApi(makeOpts())]);
+		expect((publicLog.info.mock.calls[0][1] as LogContext).component).toBe('public-api');
+		expect((adminLog.info.mock.calls[0][1] as LogContext).component).toBe('admin-api');
+	});
+
+	it('should use custom message templates with placeholders', async () => {
+		const mock = makeMockLogger();
+		const middleware = createLoggingMiddleware({
+			logger: mock,
+			messages: { called: '-> {procedure}', failed: '{procedureType} {procedure} failed' },
+		});
+		await middleware(makeOpts());
+		const opts = makeOpts();
+		opts.next.mockRejectedValue(new Error('boom'));
+		await expect(middleware(opts)).rejects.toThrow('boom');
+
+		expect(mock.info.mock.calls[0][0]).toBe('-> admin.users.list');
+		expect(mock.info.mock.calls[1][0]).toBe('tRPC procedure completed');
+		expect(mock.error.mock.calls[0][0]).toBe('query admin.users.list failed');
+	});
+
+	it('should leave unknown placeholders untouched', async () => {
+		const mock = makeMockLogger();
+		const middleware = createLoggingMiddleware({ logger: mock, messages: { called: '{nope}' } });
+		await middleware(makeOpts());
+		expect(mock.info.mock.calls[0][0]).toBe('{nope}');
+	});
+
+	it('should omit fields that are disabled', async () => {
+		const mock = makeMockLogger();
+		const middleware = createLoggingMiddleware({
+			logger: mock,
+			fields: { sessionId: false, clientIpHash: false, duration: false },
+		});
+		await middleware(makeOpts());
+		const [start, done] = mock.info.mock.calls.map((c) => c[1] as LogContext);
+		expect(start).not.toHaveProperty('sessionId');
+		expect(start).not.toHaveProperty('clientIpHash');
+		expect(start).toHaveProperty('userId', 'user-1');
+		expect(done).not.toHaveProperty('duration');
+		expect(done).toHaveProperty('success', true);
+	});
+
+	it('should omit error fields on failure when disabled', async () => {
+		const mock = makeMockLogger();
+		const middleware = createLoggingMiddleware({ logger: mock, fields: { error: false } });
+		const opts = makeOpts();
+		opts.next.mockRejectedValue(new Error('secret detail'));
+		await expect(middleware(opts)).rejects.toThrow();
+		expect(mock.error.mock.calls[0][1]).not.toHaveProperty('error');
+		expect(mock.error.mock.calls[0][1]).toHaveProperty('errorType', 'Error');
+	});
+});
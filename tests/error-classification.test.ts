@@ -0,0 +1,151 @@
+import { describe, it, expect } from 'vitest';
+import { classifyError, createLoggingMiddleware, isTRPCErrorLike } from '../src/index.js';
+import { makeMockLogger } from './helpers.js';
+
+class TRPCError extends Error {
+	constructor(
+		public readonly code: string,
+		message: string,
+		public readonly cause?: unknown,
+	) {
+		super(message);
+		this.name = 'TRPCError';
+	}
+}
+
+describe('isTRPCErrorLike', () => {
+	it('should recognise errors with a known tRPC code', () => {
+		expect(isTRPCErrorLike(new TRPCError('NOT_FOUND', 'missing'))).toBe(true);
+		expect(isTRPCErrorLike({ code: 'FORBIDDEN' })).toBe(true);
+	});
+
+	it('should reject unknown codes and non-objects', () => {
+		expect(isTRPCErrorLike({ code: 'ECONNREFUSED' })).toBe(false);
+		expect(isTRPCErrorLike(new Error('plain'))).toBe(false);
+		expect(isTRPCErrorLike('BAD_REQUEST')).toBe(false);
+		expect(isTRPCErrorLike(null)).toBe(false);
+	});
+});
+
+describe('classifyError', () => {
+	it('should classify client errors as expected warnings', () => {
+		expect(classifyError(new TRPCError('UNAUTHORIZED', 'no'))).toEqual({
+			code: 'UNAUTHORIZED',
+			httpStatus: 401,
+			expected: true,
+			level: 'warn',
+		});
+	});
+
+	it('should classify server errors as unexpected errors', () => {
+		expect(classifyError(new TRPCError('BAD_GATEWAY', 'upstream'))).toEqual({
+			code: 'BAD_GATEWAY',
+			httpStatus: 502,
+			expected: false,
+			level: 'error',
+		});
+	});
+
+	it('should treat unknown errors as INTERNAL_SERVER_ERROR', () => {
+		expect(classifyError(new Error('boom'))).toEqual({
+			code: 'INTERNAL_SERVER_ERROR',
+			httpStatus: 500,
+			expected: false,
+			level: 'error',
+		});
+	});
+
+	it('should apply level overrides from the table', () => {
+		const levels = { NOT_FOUND: 'info', TOO_MANY_REQUESTS: 'error' } as const;
+		expect(classifyError({ code: 'NOT_FOUND' }, levels).level).toBe('info');
+		expect(classifyError({ code: 'TOO_MANY_REQUESTS' }, levels).level).toBe('error');
+	});
+});
+
+describe('createLoggingMiddleware — error classification', () => {
+	it('should log expected client errors at warn with code and status', async () => {
+		const mock = makeMockLogger();
+		const middleware = createLoggingMiddleware({ logger: mock });
+		await expect(
+			middleware({
+				ctx: {},
+				next: () => Promise.reject(new TRPCError('BAD_REQUEST', 'invalid input')),
+			}),
+		).rejects.toThrow('invalid input');
+		expect(mock.error).not.toHaveBeenCalled();
+		expect(mock.warn).toHaveBeenCalledWith(
+			'tRPC procedure failed',
+			expect.objectContaining({
+				code: 'BAD_REQUEST',
+				httpStatus: 400,
+				expected: true,
+				errorType: 'TRPCError',
+			}),
+		);
+	});
+
+	it('should log server errors at error level', async () => {
+		const mock = makeMockLogger();
+		const middleware = createLoggingMiddleware({ logger: mock });
+		await expect(
+			middleware({ ctx: {}, next: () => Promise.reject(new Error('db down')) }),
+		).rejects.toThrow();
+		expect(mock.error).toHaveBeenCalledWith(
+			'tRPC procedure failed',
+			expect.objectContaining({ code: 'INTERNAL_SERVER_ERROR', httpStatus: 500, expected: false }),
+		);
+	});
+
+	it('should log failures that next resolves as an error result', async () => {
+		const mock = makeMockLogger();
+		const middleware = createLoggingMiddleware({ logger: mock });
+		const result = { ok: false, error: new TRPCError('FORBIDDEN', 'not yours') };
+		await expect(middleware({ ctx: {}, next: async () => result })).resolves.toBe(result);
+		expect(mock.info).toHaveBeenCalledTimes(1);
+		expect(mock.info).not.toHaveBeenCalledWith('tRPC procedure completed', expect.anything());
+		expect(mock.warn).toHaveBeenCalledWith(
+			'tRPC procedure failed',
+			expect.objectContaining({
+				success: false,
+				error: 'not yours',
+				code: 'FORBIDDEN',
+				httpStatus: 403,
+				expected: true,
+				errorType: 'TRPCError',
+			}),
+		);
+	});
+
+	it('should classify error results whose error is a plain object', async () => {
+		const mock = makeMockLogger();
+		const middleware = createLoggingMiddleware({ logger: mock });
+		await middleware({
+			ctx: {},
+			next: async () => ({ ok: false, error: { code: 'INTERNAL_SERVER_ERROR', message: 'db down' } }),
+		});
+		expect(mock.error).toHaveBeenCalledWith(
+			'tRPC procedure failed',
+			expect.objectContaining({
+				error: 'db down',
+				code: 'INTERNAL_SERVER_ERROR',
+				httpStatus: 500,
+				expected: false,
+			}),
+		);
+	});
+
+	it('should honour the configured errorLevels table', async () => {
+		const mock = makeMockLogger();
+		const middleware = createLoggingMiddleware({
+			logger: mock,
+			errorLevels: { UNAUTHORIZED: 'debug' },
+		});
+		await expect(
+			middleware({ ctx: {}, next: () => Promise.reject(new TRPCError('UNAUTHORIZED', 'x')) }),
+		).rejects.toThrow();
+		expect(mock.debug).toHaveBeenCalledWith(
+			'tRPC procedure failed',
+			expect.objectContaining({ code: 'UNAUTHORIZED' }),
+		);
+	});
+});
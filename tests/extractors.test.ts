@@ -0,0 +1,143 @@
+import { describe, it, expect, vi } from 'vitest';
+import {
+	createLoggingMiddleware,
+	sessionExtractor,
+	clientExtractor,
+	defaultExtractors,
+} from '../src/index.js';
+import type { ContextExtractor, LogContext } from '../src/index.js';
+import { makeMockLogger } from './helpers.js';
+
+const ctx = {
+	session: { id: 'sess-1', userId: 'user-1' },
+	client: { ipHash: 'abc123', deviceType: 'desktop', browser: { name: 'Chrome' } },
+	tenant: { id: 'tenant-9', role: 'owner' },
+};
+
+describe('default extractors', () => {
+	it('should extract session fields', () => {
+		expect(sessionExtractor(ctx, 'a', 'query')).toEqual({
+			sessionId: 'sess-1',
+			userId: 'user-1',
+		});
+	});
+
+	it('should extract client fields', () => {
+		expect(clientExtractor(ctx, 'a', 'query')).toEqual({
+			clientIpHash: 'abc123',
+			deviceType: 'desktop',
+			browser: 'Chrome',
+		});
+	});
+
+	it('should return empty fragments for missing ctx fields', () => {
+		expect(sessionExtractor({}, 'a', 'query')).toEqual({});
+		expect(clientExtractor({ client: null }, 'a', 'query')).toEqual({});
+	});
+});
+
+describe('createLoggingMiddleware — extractors', () => {
+	const tenantExtractor: ContextExtractor = (c) => {
+		const tenant = c.tenant as { id: string; role: string } | undefined;
+		return tenant ? { tenantId: tenant.id, orgRole: tenant.role } : undefined;
+	};
+
+	it('should extend the defaults with custom extractors', async () => {
+		const mock = makeMockLogger();
+		const middleware = createLoggingMiddleware({
+			logger: mock,
+			extractors: [...defaultExtractors, tenantExtractor],
+		});
+		await middleware({ ctx, path: 'a.b', type: 'query', next: async () => null });
+		expect(mock.info).toHaveBeenCalledWith(
+			'tRPC procedure called',
+			expect.objectContaining({ sessionId: 'sess-1', tenantId: 'tenant-9', orgRole: 'owner' }),
+		);
+	});
+
+	it('should put extracted fields on the completed and failed lines', async () => {
+		const mock = makeMockLogger();
+		const middleware = createLoggingMiddleware({
+			logger: mock,
+			extractors: [...defaultExtractors, tenantExtractor],
+		});
+		await middleware({ ctx, path: 'a.b', type: 'query', next: async () => null });
+		await expect(
+			middleware({ ctx, path: 'a.b', type: 'query', next: () => Promise.reject(new Error('x')) }),
+		).rejects.toThrow('x');
+
+		const identity = { userId: 'user-1', tenantId: 'tenant-9', orgRole: 'owner' };
+		expect(mock.info).toHaveBeenCalledWith(
+			'tRPC procedure completed',
+			expect.objectContaining(identity),
+		);
+		expect(mock.error).toHaveBeenCalledWith(
+			'tRPC procedure failed',
+			expect.objectContaining(identity),
+		);
+	});
+
+	it('should keep extracted fields on forced lines of unsampled requests', async () => {
+		const mock = makeMockLogger();
+		const middleware = createLoggingMiddleware({
+			logger: mock,
+			extractors: [...defaultExtractors, tenantExtractor],
+			sampling: { rate: 0 },
+		});
+		await expect(middleware({ ctx, next: () => Promise.reject(new Error('x')) })).rejects.toThrow();
+		expect(mock.info).not.toHaveBeenCalled();
+		expect(mock.error).toHaveBeenCalledWith(
+			'tRPC procedure failed',
+			expect.objectContaining({ sessionId: 'sess-1', userId: 'user-1', tenantId: 'tenant-9' }),
+		);
+	});
+
+	it('should replace the defaults entirely', async () => {
+		const mock = makeMockLogger();
+		const middleware = createLoggingMiddleware({ logger: mock, extractors: [tenantExtractor] });
+		await middleware({ ctx, next: async () => null });
+		const start = mock.info.mock.calls[0][1] as LogContext;
+		expect(start.tenantId).toBe('tenant-9');
+		expect(start).not.toHaveProperty('sessionId');
+		expect(start).not.toHaveProperty('clientIpHash');
+	});
+
+	it('should pass path and type to extractors', async () => {
+		const extractor = vi.fn().mockReturnValue({});
+		const middleware = createLoggingMiddleware({ logger: makeMockLogger(), extractors: [extractor] });
+		await middleware({ ctx, path: 'x.y', type: 'mutation', next: async () => null });
+		expect(extractor).toHaveBeenCalledWith(ctx, 'x.y', 'mutation');
+	});
+
+	it('should merge fragments in order with later extractors winning', async () => {
+		const mock = makeMockLogger();
+		const middleware = createLoggingMiddleware({
+			logger: mock,
+			extractors: [() => ({ cohort: 'a', flag: 1 }), () => ({ cohort: 'b' })],
+		});
+		await middleware({ ctx, next: async () => null });
+		expect(mock.info.mock.calls[0][1]).toEqual(
+			expect.objectContaining({ cohort: 'b', flag: 1 }),
+		);
+	});
+
+	it('should isolate a throwing extractor', async () => {
+		const mock = makeMockLogger();
+		const middleware = createLoggingMiddleware({
+			logger: mock,
+			extractors: [
+				() => {
+					throw new Error('bad extractor');
+				},
+				tenantExtractor,
+			],
+		});
+		const result = await middleware({ ctx, next: async () => 'ok' });
+		expect(result).toBe('ok');
+		expect(mock.info.mock.calls[0][1]).toEqual(expect.objectContaining({ tenantId: 'tenant-9' }));
+		expect(mock.debug).toHaveBeenCalledWith(
+			'Log context extractor failed',
+			expect.objectContaining({ extractor: 0, error: 'bad extractor' }),
+		);
+	});
+});
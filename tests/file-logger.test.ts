@@ -0,0 +1,183 @@
+import { mkdtempSync, readdirSync, readFileSync, renameSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { gunzipSync } from 'node:zlib';
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { createFileLogger } from '../src/index.js';
+import type { FileLogger, FileLoggerOptions } from '../src/index.js';
+
+let dir: string;
+const open: FileLogger[] = [];
+
+const make = (options: Partial<FileLoggerOptions> = {}) => {
+	const logger = createFileLogger({ path: join(dir, 'app.log'), ...options });
+	open.push(logger);
+	return logger;
+};
+
+const readLines = (file: string) =>
+	readFileSync(file, 'utf8')
+		.split('\n')
+		.filter(Boolean)
+		.map((line) => JSON.parse(line));
+
+const rotatedFiles = () =>
+	readdirSync(dir)
+		.filter((name) => name.startsWith('app.log.'))
+		.sort();
+
+beforeEach(() => {
+	dir = mkdtempSync(join(tmpdir(), 'file-logger-'));
+});
+
+afterEach(async () => {
+	await Promise.all(open.splice(0).map((logger) => logger.close()));
+	vi.useRealTimers();
+	rmSync(dir, { recursive: true, force: true });
+});
+
+describe('createFileLogger', () => {
+	it('should append NDJSON lines to the file', () => {
+		const log = make({ base: { service: 'api' } });
+		log.info('first', { n: 1 });
+		log.error('second');
+		expect(readLines(join(dir, 'app.log'))).toEqual([
+			expect.objectContaining({ level: 'info', msg: 'first', n: 1, service: 'api' }),
+			expect.objectContaining({ level: 'error', msg: 'second', service: 'api' }),
+		]);
+	});
+
+	it('should create missing directories', () => {
+		const log = createFileLogger({ path: join(dir, 'nested', 'deeper', 'app.log') });
+		open.push(log);
+		log.info('hello');
+		expect(readLines(join(dir, 'nested', 'deeper', 'app.log'))).toHaveLength(1);
+	});
+
+	it('should filter below the configured level', () => {
+		const log = make({ level: 'warn' });
+		log.info('hidden');
+		log.warn('shown');
+		expect(readLines(join(dir, 'app.log')).map((line) => line.msg)).toEqual(['shown']);
+	});
+
+	it('should rotate by size', () => {
+		const log = make({ maxSize: 200 });
+		for (let i = 0; i < 6; i++) {
+			log.info(`message ${i}`, { padding: 'x'.repeat(40) });
+		}
+		const rotated = rotatedFiles();
+		expect(rotated.length).toBeGreaterThan(0);
+		const all = [...rotated.map((name) => join(dir, name)), join(dir, 'app.log')].flatMap(readLines);
+		expect(all.map((line) => line.msg)).toEqual([0, 1, 2, 3, 4, 5].map((i) => `message ${i}`));
+		for (const name of rotated) {
+			expect(readFileSync(join(dir, name)).length).toBeLessThanOrEqual(200);
+		}
+	});
+
+	it('should keep only maxFiles historical files', () => {
+		const log = make({ maxFiles: 2 });
+		for (let i = 0; i < 5; i++) {
+			log.info(`batch ${i}`);
+			log.rotate();
+		}
+		const rotated = rotatedFiles();
+		expect(rotated).toHaveLength(2);
+		expect(rotated.map((name) => readLines(join(dir, name))[0].msg)).toEqual(['batch 3', 'batch 4']);
+	});
+
+	it('should keep the newest compressed files when rotating within one millisecond', async () => {
+		vi.useFakeTimers({ toFake: ['Date'] });
+		vi.setSystemTime(new Date(2026, 4, 1, 12, 0, 0));
+		const log = make({ compress: true, maxFiles: 2 });
+		for (let i = 0; i < 4; i++) {
+			log.info(`batch ${i}`);
+			log.rotate();
+		}
+		await log.close();
+		const rotated = rotatedFiles();
+		expect(rotated).toHaveLength(2);
+		expect(
+			rotated.map((name) => JSON.parse(gunzipSync(readFileSync(join(dir, name))).toString()).msg),
+		).toEqual(['batch 2', 'batch 3']);
+	});
+
+	it('should not prune files it did not rotate', () => {
+		writeFileSync(join(dir, 'app.log.1'), 'logrotate\n');
+		writeFileSync(join(dir, 'app.log.old'), 'manual\n');
+		const log = make({ maxFiles: 1 });
+		for (let i = 0; i < 3; i++) {
+			log.info(`batch ${i}`);
+			log.rotate();
+		}
+		const rotated = rotatedFiles();
+		expect(rotated).toHaveLength(3);
+		expect(rotated).toEqual(expect.arrayContaining(['app.log.1', 'app.log.old']));
+	});
+
+	it('should rotate when the day changes', () => {
+		vi.useFakeTimers({ toFake: ['Date'] });
+		vi.setSystemTime(new Date(2026, 4, 1, 23, 59, 0));
+		const log = make({ rotateDaily: true });
+		log.info('may 1');
+		vi.setSystemTime(new Date(2026, 4, 1, 23, 59, 59));
+		log.info('still may 1');
+		expect(rotatedFiles()).toHaveLength(0);
+		vi.setSystemTime(new Date(2026, 4, 2, 0, 0, 1));
+		log.info('may 2');
+		const rotated = rotatedFiles();
+		expect(rotated).toHaveLength(1);
+		expect(readLines(join(dir, rotated[0])).map((line) => line.msg)).toEqual([
+			'may 1',
+			'still may 1',
+		]);
+		expect(readLines(join(dir, 'app.log')).map((line) => line.msg)).toEqual(['may 2']);
+	});
+
+	it('should gzip rotated files', async () => {
+		const log = make({ compress: true });
+		log.info('compressed');
+		log.rotate();
+		await log.close();
+		const rotated = rotatedFiles();
+		expect(rotated).toHaveLength(1);
+		expect(rotated[0]).toMatch(/\.gz$/);
+		const content = gunzipSync(readFileSync(join(dir, rotated[0]))).toString();
+		expect(JSON.parse(content.trim())).toEqual(expect.objectContaining({ msg: 'compressed' }));
+	});
+
+	it('should reopen the file on SIGHUP after external rotation', () => {
+		const log = make({ reopenOnSighup: true });
+		log.info('before');
+		renameSync(join(dir, 'app.log'), join(dir, 'external.1'));
+		process.emit('SIGHUP', 'SIGHUP');
+		log.info('after');
+		expect(readLines(join(dir, 'external.1')).map((line) => line.msg)).toEqual(['before']);
+		expect(readLines(join(dir, 'app.log')).map((line) => line.msg)).toEqual(['after']);
+	});
+
+	it('should report reopen failures on SIGHUP instead of throwing', () => {
+		const onError = vi.fn();
+		const log = make({ path: join(dir, 'logs', 'app.log'), reopenOnSighup: true, onError });
+		log.info('before');
+		rmSync(join(dir, 'logs'), { recursive: true, force: true });
+		expect(() => process.emit('SIGHUP', 'SIGHUP')).not.toThrow();
+		expect(onError).toHaveBeenCalledWith(expect.objectContaining({ code: 'ENOENT' }));
+	});
+
+	it('should remove the SIGHUP listener on close', async () => {
+		const before = process.listenerCount('SIGHUP');
+		const log = make({ reopenOnSighup: true });
+		expect(process.listenerCount('SIGHUP')).toBe(before + 1);
+		await log.close();
+		expect(process.listenerCount('SIGHUP')).toBe(before);
+	});
+
+	it('should ignore writes after close', async () => {
+		const log = make();
+		log.info('kept');
+		await log.close();
+		log.info('ignored');
+		expect(readLines(join(dir, 'app.log'))).toHaveLength(1);
+	});
+});
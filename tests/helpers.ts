@@ -0,0 +1,27 @@
+import { vi } from 'vitest';
+import type { Clock, Logger } from '../src/index.js';
+
+export function makeMockLogger() {
+	return {
+		debug: vi.fn(),
+		info: vi.fn(),
+		warn: vi.fn(),
+		error: vi.fn(),
+	} satisfies Logger;
+}
+
+export function makeClock(...readings: number[]): Clock {
+	let index = 0;
+	return { now: () => readings[Math.min(index++, readings.length - 1)] };
+}
+
+export function createOptsFactory(defaults: Record<string, unknown> = {}) {
+	return (overrides: Record<string, unknown> = {}) => ({
+		ctx: {},
+		path: 'admin.users.list',
+		type: 'query',
+		next: vi.fn().mockResolvedValue({ ok: true }),
+		...defaults,
+		...overrides,
+	});
+}
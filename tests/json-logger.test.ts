@@ -0,0 +1,124 @@
+import { Writable } from 'node:stream';
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { configure, resetConfig, createJsonLogger, createLogger } from '../src/index.js';
+
+function makeStream() {
+	const chunks: string[] = [];
+	const stream = new Writable({
+		write(chunk, _encoding, callback) {
+			chunks.push(chunk.toString());
+			callback();
+		},
+	});
+	const lines = () => chunks.join('').split('\n').filter(Boolean);
+	return { stream, chunks, entries: () => lines().map((line) => JSON.parse(line)) };
+}
+
+beforeEach(() => {
+	vi.useFakeTimers();
+	vi.setSystemTime(new Date('2026-01-02T03:04:05.678Z'));
+});
+
+afterEach(() => {
+	vi.useRealTimers();
+	resetConfig();
+});
+
+describe('createJsonLogger', () => {
+	it('should write one JSON object per line', () => {
+		const { stream, chunks } = makeStream();
+		const log = createJsonLogger({ stream });
+		log.info('first');
+		log.warn('second');
+		expect(chunks).toEqual([
+			'{"time":"2026-01-02T03:04:05.678Z","level":"info","msg":"first"}\n',
+			'{"time":"2026-01-02T03:04:05.678Z","level":"warn","msg":"second"}\n',
+		]);
+	});
+
+	it('should flatten base and call context into the line', () => {
+		const { stream, entries } = makeStream();
+		createJsonLogger({ stream, base: { service: 'api', env: 'test' } }).error('boom', {
+			env: 'override',
+			procedure: 'users.get',
+		});
+		expect(entries()[0]).toEqual({
+			time: '2026-01-02T03:04:05.678Z',
+			level: 'error',
+			msg: 'boom',
+			service: 'api',
+			env: 'override',
+			procedure: 'users.get',
+		});
+	});
+
+	it('should not let context overwrite time, level or msg', () => {
+		const { stream, entries } = makeStream();
+		createJsonLogger({ stream }).info('real', { level: 'fake', msg: 'fake', time: 0 });
+		expect(entries()[0]).toEqual(
+			expect.objectContaining({ level: 'info', msg: 'real', time: '2026-01-02T03:04:05.678Z' }),
+		);
+	});
+
+	it('should filter below the configured level', () => {
+		const { stream, entries } = makeStream();
+		const log = createJsonLogger({ stream, level: 'warn' });
+		log.debug('no');
+		log.info('no');
+		log.warn('yes');
+		expect(entries().map((entry) => entry.msg)).toEqual(['yes']);
+	});
+
+	it('should handle circular references, BigInt, Date, Map, Set and undefined', () => {
+		const { stream, entries } = makeStream();
+		const loop: Record<string, unknown> = { name: 'loop' };
+		loop.self = loop;
+		createJsonLogger({ stream }).info('values', {
+			loop,
+			big: 12345678901234567890n,
+			at: new Date('2025-05-05T00:00:00.000Z'),
+			map: new Map<unknown, unknown>([['a', 1], [2, new Set(['x'])]]),
+			set: new Set([1, 2]),
+			missing: undefined,
+			list: [undefined, 1],
+		});
+		expect(entries()[0]).toEqual(
+			expect.objectContaining({
+				loop: { name: 'loop', self: '[Circular]' },
+				big: '12345678901234567890',
+				at: '2025-05-05T00:00:00.000Z',
+				map: { a: 1, 2: ['x'] },
+				set: [1, 2],
+				list: [null, 1],
+			}),
+		);
+		expect(entries()[0]).not.toHaveProperty('missing');
+	});
+
+	it('should serialize Error values', () => {
+		const { stream, entries } = makeStream();
+		const error = Object.assign(new Error('bad', { cause: new Error('root') }), { code: 'E1' });
+		createJsonLogger({ stream }).error('failed', { err: error });
+		const { err } = entries()[0];
+		expect(err).toEqual(
+			expect.objectContaining({ name: 'Error', message: 'bad', code: 'E1', stack: expect.any(String) }),
+		);
+		expect(err.cause).toEqual(expect.objectContaining({ message: 'root' }));
+	});
+
+	it('should allow repeated non-circular references', () => {
+		const { stream, entries } = makeStream();
+		const shared = { id: 1 };
+		createJsonLogger({ stream }).info('shared', { a: shared, b: shared });
+		expect(entries()[0]).toEqual(expect.objectContaining({ a: { id: 1 }, b: { id: 1 } }));
+	});
+
+	it('should work as the configured sink for createLogger', () => {
+		const { stream, entries } = makeStream();
+		configure({ logger: createJsonLogger({ stream }) });
+		createLogger('db').info('connected', { pool: 4 });
+		expect(entries()[0]).toEqual(
+			expect.objectContaining({ msg: 'connected', component: 'db', pool: 4 }),
+		);
+	});
+});
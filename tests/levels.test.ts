@@ -0,0 +1,98 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import {
+	configure,
+	resetConfig,
+	setLevel,
+	createLogger,
+	loggingMiddleware,
+	resolveComponentLevel,
+} from '../src/index.js';
+import { makeMockLogger } from './helpers.js';
+
+beforeEach(() => {
+	resetConfig();
+});
+
+afterEach(() => {
+	resetConfig();
+});
+
+describe('resolveComponentLevel', () => {
+	it('should default to debug', () => {
+		expect(resolveComponentLevel({ logger: makeMockLogger() }, 'x')).toBe('debug');
+	});
+
+	it('should prefer exact matches, then the most specific wildcard', () => {
+		const config = {
+			logger: makeMockLogger(),
+			level: 'warn' as const,
+			levels: { 'auth.*': 'debug', 'auth.session.*': 'error', 'auth.token': 'info' } as const,
+		};
+		expect(resolveComponentLevel(config, 'auth.token')).toBe('info');
+		expect(resolveComponentLevel(config, 'auth.login')).toBe('debug');
+		expect(resolveComponentLevel(config, 'auth.session.store')).toBe('error');
+		expect(resolveComponentLevel(config, 'db')).toBe('warn');
+	});
+});
+
+describe('createLogger — level filtering', () => {
+	it('should drop calls below the global level', () => {
+		const mock = makeMockLogger();
+		configure({ logger: mock, level: 'info' });
+		const log = createLogger('db');
+		log.debug('hidden');
+		log.info('shown');
+		expect(mock.debug).not.toHaveBeenCalled();
+		expect(mock.info).toHaveBeenCalledTimes(1);
+	});
+
+	it('should not build the context for filtered calls', () => {
+		const mock = makeMockLogger();
+		configure({ logger: mock, level: 'warn' });
+		const context = {
+			get expensive(): never {
+				throw new Error('context should not be read');
+			},
+		};
+		createLogger('db').debug('hidden', context);
+		expect(mock.debug).not.toHaveBeenCalled();
+	});
+
+	it('should apply wildcard component overrides', () => {
+		const mock = makeMockLogger();
+		configure({ logger: mock, level: 'warn', levels: { 'auth.*': 'debug', noisy: 'silent' } });
+		createLogger('auth.oauth').debug('visible');
+		createLogger('noisy').error('muted');
+		createLogger('billing').info('filtered');
+		expect(mock.debug).toHaveBeenCalledTimes(1);
+		expect(mock.error).not.toHaveBeenCalled();
+		expect(mock.info).not.toHaveBeenCalled();
+	});
+
+	it('should pick up runtime level changes without recreating loggers', () => {
+		const mock = makeMockLogger();
+		configure({ logger: mock, level: 'error' });
+		const log = createLogger('jobs');
+		log.info('before');
+		setLevel('debug');
+		log.info('after');
+		setLevel('silent', 'jobs');
+		log.error('muted');
+		expect(mock.info).toHaveBeenCalledTimes(1);
+		expect(mock.info).toHaveBeenCalledWith('after', expect.any(Object));
+		expect(mock.error).not.toHaveBeenCalled();
+	});
+});
+
+describe('loggingMiddleware — level filtering', () => {
+	it('should respect the trpc-middleware component level', async () => {
+		const mock = makeMockLogger();
+		configure({ logger: mock, levels: { 'trpc-*': 'error' } });
+		await loggingMiddleware({ ctx: {}, next: async () => null });
+		expect(mock.info).not.toHaveBeenCalled();
+		await expect(
+			loggingMiddleware({ ctx: {}, next: () => Promise.reject(new Error('x')) }),
+		).rejects.toThrow();
+		expect(mock.error).toHaveBeenCalledTimes(1);
+	});
+});
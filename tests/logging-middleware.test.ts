@@ -22,10 +22,12 @@ import {
 	resetConfig,
 	getNoopLogger,
 	loggingMiddleware,
+	createLoggingMiddleware,
 	createLogger,
 	createScopedLogger,
+	hrtimeClock,
 } from '../src/index.js';
-import type { Logger, LogContext, LogLevel, LoggingMiddlewareConfig } from '../src/index.js';
+import type { Clock, Logger, LogContext, LogLevel, LoggingMiddlewareConfig } from '../src/index.js';
 
 
 
@@ -45,6 +47,13 @@ function makeMockLogger(): Logger & {
 	};
 }
 
+function makeClock(...readings: number[]): Clock {
+	let index = 0;
+	return {
+		now: () => readings[Math.min(index++, readings.length - 1)],
+	};
+}
+
 function makeOpts(overrides: Record<string, unknown> = {}) {
 	return {
 		ctx: {
@@ -188,25 +197,25 @@ describe('loggingMiddleware — basic logging', () => {
 		);
 	});
 
-	it('should include duration string in success log', async () => {
+	it('should include numeric durationMs in success log', async () => {
 		const mock = makeMockLogger();
-		configure({ logger: mock });
+		configure({ logger: mock, clock: makeClock(10, 22.5) });
 		await loggingMiddleware(makeOpts());
 		const completionCall = mock.info.mock.calls.find(
 			(c: unknown[]) => c[0] === 'tRPC procedure completed',
 		);
 		expect(completionCall).toBeDefined();
-		expect((completionCall![1] as LogContext).duration).toMatch(/^\d+ms$/);
+		expect((completionCall![1] as LogContext).durationMs).toBe(12.5);
 	});
 
-	it('should include duration string in error log', async () => {
+	it('should include numeric durationMs in error log', async () => {
 		const mock = makeMockLogger();
-		configure({ logger: mock });
+		configure({ logger: mock, clock: makeClock(10, 13) });
 		const opts = makeOpts();
 		opts.next.mockRejectedValue(new Error('fail'));
 		await expect(loggingMiddleware(opts)).rejects.toThrow();
 		const errorCall = mock.error.mock.calls[0];
-		expect((errorCall[1] as LogContext).duration).toMatch(/^\d+ms$/);
+		expect((errorCall[1] as LogContext).durationMs).toBe(3);
 	});
 
 	it('should log procedure path in both start and completion', async () => {
@@ -363,15 +372,27 @@ describe('loggingMiddleware — session context', () => {
 		);
 	});
 
-	it('should not include session fields in the completion log', async () => {
+	it('should include session fields in the completion log', async () => {
 		const mock = makeMockLogger();
 		configure({ logger: mock });
 		await loggingMiddleware(makeOpts());
 		const completionCall = mock.info.mock.calls.find(
 			(c: unknown[]) => c[0] === 'tRPC procedure completed',
 		);
-		expect(completionCall![1]).not.toHaveProperty('sessionId');
-		expect(completionCall![1]).not.toHaveProperty('userId');
+		expect(completionCall![1]).toHaveProperty('sessionId', 'sess-1');
+		expect(completionCall![1]).toHaveProperty('userId', 'user-1');
+	});
+
+	it('should include session fields in the failure log', async () => {
+		const mock = makeMockLogger();
+		configure({ logger: mock });
+		const opts = makeOpts();
+		opts.next.mockRejectedValue(new Error('boom'));
+		await expect(loggingMiddleware(opts)).rejects.toThrow('boom');
+		expect(mock.error).toHaveBeenCalledWith(
+			'tRPC procedure failed',
+			expect.objectContaining({ sessionId: 'sess-1', userId: 'user-1' }),
+		);
 	});
 });
 
@@ -456,16 +477,16 @@ describe('loggingMiddleware — client context', () => {
 		expect(startCall![1]).not.toHaveProperty('browser');
 	});
 
-	it('should not include client fields in the completion log', async () => {
+	it('should include client fields in the completion log', async () => {
 		const mock = makeMockLogger();
 		configure({ logger: mock });
 		await loggingMiddleware(makeOpts());
 		const completionCall = mock.info.mock.calls.find(
 			(c: unknown[]) => c[0] === 'tRPC procedure completed',
 		);
-		expect(completionCall![1]).not.toHaveProperty('clientIpHash');
-		expect(completionCall![1]).not.toHaveProperty('deviceType');
-		expect(completionCall![1]).not.toHaveProperty('browser');
+		expect(completionCall![1]).toHaveProperty('clientIpHash', 'abc123');
+		expect(completionCall![1]).toHaveProperty('deviceType', 'desktop');
+		expect(completionCall![1]).toHaveProperty('browser', 'Chrome');
 	});
 
 	it('should log mobile deviceType correctly', async () => {
@@ -703,6 +724,123 @@ describe('createLogger', () => {
 
 
 
+describe('createLogger — late binding', () => {
+	it('should use a logger configured after the logger was created', () => {
+		const log = createLogger('db');
+		const mock = makeMockLogger();
+		configure({ logger: mock });
+		log.info('connected');
+		expect(mock.info).toHaveBeenCalledWith(
+			'connected',
+			expect.objectContaining({ component: 'db' }),
+		);
+	});
+
+	it('should follow reconfiguration after creation', () => {
+		const first = makeMockLogger();
+		const second = makeMockLogger();
+		configure({ logger: first });
+		const log = createLogger('db');
+		log.info('one');
+		configure({ logger: second });
+		log.info('two');
+		expect(first.info).toHaveBeenCalledTimes(1);
+		expect(second.info).toHaveBeenCalledTimes(1);
+		expect(second.info).toHaveBeenCalledWith('two', expect.any(Object));
+	});
+
+	it('should stop writing to a logger after resetConfig()', () => {
+		const mock = makeMockLogger();
+		configure({ logger: mock });
+		const log = createLogger('db');
+		resetConfig();
+		log.error('dropped');
+		expect(mock.error).not.toHaveBeenCalled();
+	});
+});
+
+
+
+
+
+describe('createLogger — child loggers', () => {
+	it('should add bindings to every call', () => {
+		const mock = makeMockLogger();
+		configure({ logger: mock });
+		const log = createLogger('jobs').child({ jobId: 'job-1' });
+		log.info('started');
+		log.warn('retrying', { attempt: 2 });
+		expect(mock.info).toHaveBeenCalledWith('started', {
+			component: 'jobs',
+			jobId: 'job-1',
+		});
+		expect(mock.warn).toHaveBeenCalledWith('retrying', {
+			component: 'jobs',
+			jobId: 'job-1',
+			attempt: 2,
+		});
+	});
+
+	it('should accumulate bindings and compose components when nested', () => {
+		const mock = makeMockLogger();
+		configure({ logger: mock });
+		const log = createLogger('billing')
+			.child({ component: 'stripe', account: 'acct_1' })
+			.child({ component: 'webhook', eventId: 'evt_1' });
+		log.info('received');
+		expect(mock.info).toHaveBeenCalledWith('received', {
+			component: 'billing:stripe:webhook',
+			account: 'acct_1',
+			eventId: 'evt_1',
+		});
+	});
+
+	it('should keep the parent component when the child has none', () => {
+		const mock = makeMockLogger();
+		configure({ logger: mock });
+		createLogger('db').child({ pool: 'primary' }).info('query');
+		expect(mock.info).toHaveBeenCalledWith('query', { component: 'db', pool: 'primary' });
+	});
+
+	it('should let call-site context win over bindings', () => {
+		const mock = makeMockLogger();
+		configure({ logger: mock });
+		const log = createLogger('jobs').child({ status: 'queued' }).child({ status: 'running' });
+		log.info('bound');
+		log.info('explicit', { status: 'done' });
+		expect(mock.info.mock.calls[0][1]).toHaveProperty('status', 'running');
+		expect(mock.info.mock.calls[1][1]).toHaveProperty('status', 'done');
+	});
+
+	it('should not leak child bindings into the parent', () => {
+		const mock = makeMockLogger();
+		configure({ logger: mock });
+		const parent = createLogger('jobs');
+		parent.child({ jobId: 'job-1' });
+		parent.info('plain');
+		expect(mock.info.mock.calls[0][1]).not.toHaveProperty('jobId');
+	});
+
+	it('should filter levels by the composed component', () => {
+		const mock = makeMockLogger();
+		configure({ logger: mock, level: 'warn', levels: { 'billing:stripe*': 'debug' } });
+		createLogger('billing').child({ component: 'stripe' }).debug('visible');
+		createLogger('billing').debug('hidden');
+		expect(mock.debug).toHaveBeenCalledTimes(1);
+	});
+
+	it('should still accept plain loggers without child()', () => {
+		const plain: Logger = makeMockLogger();
+		configure({ logger: plain });
+		expect(plain.child).toBeUndefined();
+		expect(() => createLogger('x').child({}).info('ok')).not.toThrow();
+	});
+});
+
+
+
+
+
 describe('createScopedLogger', () => {
 	it('should be the same function as createLogger', () => {
 		expect(createScopedLogger).toBe(createLogger);
@@ -735,67 +873,76 @@ describe('createScopedLogger', () => {
 
 
 describe('loggingMiddleware — duration measurement', () => {
-	it('should include a duration field in the success log', async () => {
+	it('should include a durationMs field in the success log', async () => {
 		const mock = makeMockLogger();
 		configure({ logger: mock });
 		await loggingMiddleware(makeOpts());
 		const completionCall = mock.info.mock.calls.find(
 			(c: unknown[]) => c[0] === 'tRPC procedure completed',
 		);
-		expect(completionCall![1]).toHaveProperty('duration');
+		expect(completionCall![1]).toHaveProperty('durationMs');
+		expect(completionCall![1]).not.toHaveProperty('duration');
 	});
 
-	it('should include a duration field in the error log', async () => {
+	it('should include a durationMs field in the error log', async () => {
 		const mock = makeMockLogger();
 		configure({ logger: mock });
 		const opts = makeOpts();
 		opts.next.mockRejectedValue(new Error('err'));
 		await expect(loggingMiddleware(opts)).rejects.toThrow();
-		expect((mock.error.mock.calls[0][1] as LogContext).duration).toBeDefined();
+		expect((mock.error.mock.calls[0][1] as LogContext).durationMs).toBeTypeOf('number');
 	});
 
-	it('should format duration as "<number>ms"', async () => {
+	it('should keep sub-millisecond precision', async () => {
 		const mock = makeMockLogger();
-		configure({ logger: mock });
+		configure({ logger: mock, clock: makeClock(100, 100.25) });
 		await loggingMiddleware(makeOpts());
 		const completionCall = mock.info.mock.calls.find(
 			(c: unknown[]) => c[0] === 'tRPC procedure completed',
 		);
-		expect(completionCall![1].duration).toMatch(/^\d+ms$/);
+		expect(completionCall![1].durationMs).toBe(0.25);
 	});
 
-	it('should record non-negative duration on success', async () => {
+	it('should record non-negative duration on success with the default clock', async () => {
 		const mock = makeMockLogger();
 		configure({ logger: mock });
 		await loggingMiddleware(makeOpts());
 		const completionCall = mock.info.mock.calls.find(
 			(c: unknown[]) => c[0] === 'tRPC procedure completed',
 		);
-		const ms = parseInt((completionCall![1].duration as string).replace('ms', ''), 10);
-		expect(ms).toBeGreaterThanOrEqual(0);
+		expect(completionCall![1].durationMs).toBeGreaterThanOrEqual(0);
 	});
 
 	it('should record measurable duration for slow procedures', async () => {
 		const mock = makeMockLogger();
-		configure({ logger: mock });
-
-		
-		let callCount = 0;
-		const originalDateNow = Date.now;
-		vi.spyOn(Date, 'now').mockImplementation(() => {
-			callCount++;
-			
-			return callCount === 1 ? 1000 : 1050;
-		});
+		configure({ logger: mock, clock: makeClock(1000, 1050) });
 
 		await loggingMiddleware(makeOpts());
 
 		const completionCall = mock.info.mock.calls.find(
 			(c: unknown[]) => c[0] === 'tRPC procedure completed',
 		);
-		expect(completionCall![1].duration).toBe('50ms');
+		expect(completionCall![1].durationMs).toBe(50);
+	});
 
-		Date.now = originalDateNow;
+	it('should measure with the hrtime clock', async () => {
+		const mock = makeMockLogger();
+		configure({ logger: mock, clock: hrtimeClock });
+		await loggingMiddleware(makeOpts());
+		const completionCall = mock.info.mock.calls.find(
+			(c: unknown[]) => c[0] === 'tRPC procedure completed',
+		);
+		expect(completionCall![1].durationMs).toBeGreaterThanOrEqual(0);
+	});
+
+	it('should prefer an instance clock over the configured clock', async () => {
+		const mock = makeMockLogger();
+		configure({ logger: mock, clock: makeClock(0, 999) });
+		await createLoggingMiddleware({ clock: makeClock(0, 7) })(makeOpts());
+		const completionCall = mock.info.mock.calls.find(
+			(c: unknown[]) => c[0] === 'tRPC procedure completed',
+		);
+		expect(completionCall![1].durationMs).toBe(7);
 	});
 });
 
@@ -952,31 +1099,27 @@ describe('re-exports and public API surface', () => {
 
 
 
-describe('loggingMiddleware — mocked Date.now durations', () => {
-	it('should record exact duration on error path via mocked Date.now', async () => {
+describe('loggingMiddleware — legacy duration strings', () => {
+	it('should record exact duration on error path', async () => {
 		const mock = makeMockLogger();
-		configure({ logger: mock });
-
-		let callCount = 0;
-		vi.spyOn(Date, 'now').mockImplementation(() => {
-			callCount++;
-			return callCount === 1 ? 5000 : 5123;
-		});
+		configure({ logger: mock, clock: makeClock(5000, 5123) });
 
 		const opts = makeOpts();
 		opts.next.mockRejectedValue(new Error('timed'));
-		await expect(loggingMiddleware(opts)).rejects.toThrow('timed');
+		await expect(
+			createLoggingMiddleware({ legacyDuration: true })(opts),
+		).rejects.toThrow('timed');
 
-		expect((mock.error.mock.calls[0][1] as LogContext).duration).toBe('123ms');
+		expect(mock.error.mock.calls[0][1]).toEqual(
+			expect.objectContaining({ duration: '123ms', durationMs: 123 }),
+		);
 	});
 
-	it('should record 0ms duration when Date.now returns same value', async () => {
+	it('should record 0ms duration when the clock does not advance', async () => {
 		const mock = makeMockLogger();
-		configure({ logger: mock });
+		configure({ logger: mock, clock: makeClock(9999) });
 
-		vi.spyOn(Date, 'now').mockReturnValue(9999);
-
-		await loggingMiddleware(makeOpts());
+		await createLoggingMiddleware({ legacyDuration: true })(makeOpts());
 
 		const completionCall = mock.info.mock.calls.find(
 			(c: unknown[]) => c[0] === 'tRPC procedure completed',
@@ -984,21 +1127,17 @@ describe('loggingMiddleware — mocked Date.now durations', () => {
 		expect(completionCall![1].duration).toBe('0ms');
 	});
 
-	it('should record large duration correctly', async () => {
+	it('should round fractional durations in the legacy string', async () => {
 		const mock = makeMockLogger();
-		configure({ logger: mock });
-
-		let callCount = 0;
-		vi.spyOn(Date, 'now').mockImplementation(() => {
-			callCount++;
-			return callCount === 1 ? 0 : 30000;
-		});
+		configure({ logger: mock, clock: makeClock(0, 30000.6) });
 
-		await loggingMiddleware(makeOpts());
+		await createLoggingMiddleware({ legacyDuration: true })(makeOpts());
 
 		const completionCall = mock.info.mock.calls.find(
 			(c: unknown[]) => c[0] === 'tRPC procedure completed',
 		);
-		expect(completionCall![1].duration).toBe('30000ms');
+		expect(completionCall![1].duration).toMatch(/^\d+ms$/);
+		expect(completionCall![1].duration).toBe('30001ms');
+		expect(completionCall![1].durationMs).toBe(30000.6);
 	});
 });
@@ -0,0 +1,198 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import {
+	configure,
+	resetConfig,
+	createLoggingMiddleware,
+	createMetricsRegistry,
+	loggingMiddleware,
+} from '../src/index.js';
+import { createCapturingLogger } from '../src/testing.js';
+import { createOptsFactory, makeClock } from './helpers.js';
+
+const makeOpts = createOptsFactory({ path: 'orders.list' });
+
+const LIST = 'path="orders.list",type="query"';
+
+const sample = (exposition: string, series: string): number | undefined => {
+	const line = exposition.split('\n').find((candidate) => candidate.startsWith(`${series} `));
+	return line === undefined ? undefined : Number(line.slice(series.length + 1));
+};
+
+beforeEach(() => {
+	resetConfig();
+});
+
+afterEach(() => {
+	resetConfig();
+});
+
+describe('createMetricsRegistry', () => {
+	it('should render an empty registry with metadata only', () => {
+		expect(createMetricsRegistry().render()).toMatchInlineSnapshot(`
+			"# HELP trpc_procedure_calls_total Total number of tRPC procedure calls.
+			# TYPE trpc_procedure_calls_total counter
+			# HELP trpc_procedure_duration_seconds tRPC procedure latency in seconds.
+			# TYPE trpc_procedure_duration_seconds histogram
+			# HELP trpc_procedure_in_flight Number of tRPC procedure calls in progress.
+			# TYPE trpc_procedure_in_flight gauge
+			"
+		`);
+	});
+
+	it('should render counters, histograms and gauges in exposition format', () => {
+		const metrics = createMetricsRegistry({ buckets: [0.1, 1] });
+		metrics.procedureStarted('orders.list', 'query');
+		metrics.procedureFinished('orders.list', 'query', { durationMs: 50, outcome: 'success' });
+		metrics.procedureStarted('orders.list', 'query');
+		metrics.procedureFinished('orders.list', 'query', {
+			durationMs: 1500,
+			outcome: 'error',
+			code: 'TIMEOUT',
+		});
+		metrics.procedureStarted('orders.create', 'mutation');
+
+		expect(metrics.render()).toMatchInlineSnapshot(`
+			"# HELP trpc_procedure_calls_total Total number of tRPC procedure calls.
+			# TYPE trpc_procedure_calls_total counter
+			trpc_procedure_calls_total{path="orders.list",type="query",outcome="success"} 1
+			trpc_procedure_calls_total{path="orders.list",type="query",outcome="error",code="TIMEOUT"} 1
+			# HELP trpc_procedure_duration_seconds tRPC procedure latency in seconds.
+			# TYPE trpc_procedure_duration_seconds histogram
+			trpc_procedure_duration_seconds_bucket{path="orders.list",type="query",outcome="success",le="0.1"} 1
+			trpc_procedure_duration_seconds_bucket{path="orders.list",type="query",outcome="success",le="1"} 1
+			trpc_procedure_duration_seconds_bucket{path="orders.list",type="query",outcome="success",le="+Inf"} 1
+			trpc_procedure_duration_seconds_sum{path="orders.list",type="query",outcome="success"} 0.05
+			trpc_procedure_duration_seconds_count{path="orders.list",type="query",outcome="success"} 1
+			trpc_procedure_duration_seconds_bucket{path="orders.list",type="query",outcome="error",le="0.1"} 0
+			trpc_procedure_duration_seconds_bucket{path="orders.list",type="query",outcome="error",le="1"} 0
+			trpc_procedure_duration_seconds_bucket{path="orders.list",type="query",outcome="error",le="+Inf"} 1
+			trpc_procedure_duration_seconds_sum{path="orders.list",type="query",outcome="error"} 1.5
+			trpc_procedure_duration_seconds_count{path="orders.list",type="query",outcome="error"} 1
+			# HELP trpc_procedure_in_flight Number of tRPC procedure calls in progress.
+			# TYPE trpc_procedure_in_flight gauge
+			trpc_procedure_in_flight{path="orders.list",type="query"} 0
+			trpc_procedure_in_flight{path="orders.create",type="mutation"} 1
+			"
+		`);
+	});
+
+	it('should accumulate cumulative bucket counts', () => {
+		const metrics = createMetricsRegistry({ buckets: [0.01, 0.1, 1] });
+		for (const durationMs of [5, 50, 500, 5000]) {
+			metrics.procedureFinished('a', 'query', { durationMs, outcome: 'success' });
+		}
+		const output = metrics.render();
+		const labels = 'path="a",type="query",outcome="success"';
+		const bucket = (le: string) =>
+			sample(output, `trpc_procedure_duration_seconds_bucket{${labels},le="${le}"}`);
+		expect([bucket('0.01'), bucket('0.1'), bucket('1'), bucket('+Inf')]).toEqual([1, 2, 3, 4]);
+		expect(sample(output, `trpc_procedure_duration_seconds_count{${labels}}`)).toBe(4);
+	});
+
+	it('should escape label values', () => {
+		const metrics = createMetricsRegistry();
+		metrics.procedureStarted('we"ird\\path\nname', 'query');
+		expect(metrics.render()).toContain('{path="we\\"ird\\\\path\\nname",type="query"} 1');
+	});
+
+	it('should apply a custom prefix', () => {
+		const metrics = createMetricsRegistry({ prefix: 'api_rpc' });
+		metrics.procedureStarted('a', 'query');
+		expect(metrics.render()).toContain('api_rpc_in_flight{path="a",type="query"} 1');
+		expect(metrics.render()).toContain('# TYPE api_rpc_calls_total counter');
+	});
+
+	it('should reject unsorted or non-finite buckets', () => {
+		expect(() => createMetricsRegistry({ buckets: [1, 0.5] })).toThrow('strictly increasing');
+		expect(() => createMetricsRegistry({ buckets: [1, 1] })).toThrow('strictly increasing');
+		expect(() => createMetricsRegistry({ buckets: [Number.POSITIVE_INFINITY] })).toThrow(
+			'finite',
+		);
+	});
+
+	it('should clear all series on reset', () => {
+		const metrics = createMetricsRegistry();
+		metrics.procedureStarted('a', 'query');
+		metrics.reset();
+		expect(metrics.render()).not.toContain('path="a"');
+	});
+});
+
+describe('middleware metrics', () => {
+	it('should record successful calls', async () => {
+		const metrics = createMetricsRegistry({ buckets: [0.1] });
+		await createLoggingMiddleware({ metrics, clock: makeClock(1000, 1040) })(makeOpts());
+
+		const output = metrics.render();
+		expect(sample(output, `trpc_procedure_calls_total{${LIST},outcome="success"}`)).toBe(1);
+		expect(sample(output, `trpc_procedure_duration_seconds_sum{${LIST},outcome="success"}`)).toBe(
+			0.04,
+		);
+		expect(sample(output, `trpc_procedure_in_flight{${LIST}}`)).toBe(0);
+	});
+
+	it('should record failures with the tRPC error code', async () => {
+		const metrics = createMetricsRegistry();
+		const error = Object.assign(new Error('nope'), { code: 'NOT_FOUND' });
+		await expect(
+			createLoggingMiddleware({ metrics })(makeOpts({ next: vi.fn().mockRejectedValue(error) })),
+		).rejects.toBe(error);
+
+		expect(
+			sample(
+				metrics.render(),
+				`trpc_procedure_calls_total{${LIST},outcome="error",code="NOT_FOUND"}`,
+			),
+		).toBe(1);
+		expect(metrics.render()).not.toContain('outcome="success"');
+	});
+
+	it('should record error results as failures', async () => {
+		const metrics = createMetricsRegistry();
+		const error = Object.assign(new Error('nope'), { code: 'NOT_FOUND' });
+		await createLoggingMiddleware({ metrics })(
+			makeOpts({ next: vi.fn().mockResolvedValue({ ok: false, error }) }),
+		);
+
+		expect(
+			sample(
+				metrics.render(),
+				`trpc_procedure_calls_total{${LIST},outcome="error",code="NOT_FOUND"}`,
+			),
+		).toBe(1);
+		expect(metrics.render()).not.toContain('outcome="success"');
+		expect(sample(metrics.render(), `trpc_procedure_in_flight{${LIST}}`)).toBe(0);
+	});
+
+	it('should track calls in flight', async () => {
+		const metrics = createMetricsRegistry();
+		let inFlight: number | undefined;
+		await createLoggingMiddleware({ metrics })(
+			makeOpts({
+				next: vi.fn().mockImplementation(async () => {
+					inFlight = sample(metrics.render(), `trpc_procedure_in_flight{${LIST}}`);
+					return { ok: true };
+				}),
+			}),
+		);
+		expect(inFlight).toBe(1);
+		expect(sample(metrics.render(), `trpc_procedure_in_flight{${LIST}}`)).toBe(0);
+	});
+
+	it('should count calls that are not sampled for logging', async () => {
+		const logs = createCapturingLogger();
+		const metrics = createMetricsRegistry();
+		await createLoggingMiddleware({ logger: logs, metrics, sampling: { rate: 0 } })(makeOpts());
+		expect(logs.entries()).toEqual([]);
+		expect(sample(metrics.render(), `trpc_procedure_calls_total{${LIST},outcome="success"}`)).toBe(1);
+	});
+
+	it('should use the registry from the global config', async () => {
+		const metrics = createMetricsRegistry();
+		configure({ logger: createCapturingLogger(), metrics });
+		await loggingMiddleware(makeOpts({ path: 'health', type: 'query' }));
+		expect(metrics.render()).toContain(
+			'trpc_procedure_calls_total{path="health",type="query",outcome="success"} 1',
+		);
+	});
+});
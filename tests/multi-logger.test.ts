@@ -0,0 +1,125 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import {
+	configure,
+	resetConfig,
+	createMultiLogger,
+	loggingMiddleware,
+} from '../src/index.js';
+import type { Logger } from '../src/index.js';
+import { makeMockLogger } from './helpers.js';
+
+function makeThrowingLogger(): Logger {
+	const fail = () => {
+		throw new Error('sink down');
+	};
+	return { debug: fail, info: fail, warn: fail, error: fail };
+}
+
+beforeEach(() => {
+	resetConfig();
+});
+
+afterEach(() => {
+	resetConfig();
+});
+
+describe('createMultiLogger', () => {
+	it('should fan out to every sink', () => {
+		const a = makeMockLogger();
+		const b = makeMockLogger();
+		createMultiLogger([{ logger: a }, { logger: b }]).info('hello', { x: 1 });
+		expect(a.info).toHaveBeenCalledWith('hello', { x: 1 });
+		expect(b.info).toHaveBeenCalledWith('hello', { x: 1 });
+	});
+
+	it('should apply per-sink minimum levels', () => {
+		const stdout = makeMockLogger();
+		const audit = makeMockLogger();
+		const log = createMultiLogger([
+			{ logger: stdout, level: 'debug' },
+			{ logger: audit, level: 'warn' },
+		]);
+		log.info('info line');
+		log.error('error line');
+		expect(stdout.info).toHaveBeenCalledTimes(1);
+		expect(audit.info).not.toHaveBeenCalled();
+		expect(audit.error).toHaveBeenCalledTimes(1);
+	});
+
+	it('should apply per-sink filters', () => {
+		const audit = makeMockLogger();
+		const log = createMultiLogger([
+			{ logger: audit, filter: ({ context }) => context?.component === 'auth' },
+		]);
+		log.info('login', { component: 'auth' });
+		log.info('query', { component: 'db' });
+		expect(audit.info).toHaveBeenCalledTimes(1);
+		expect(audit.info).toHaveBeenCalledWith('login', { component: 'auth' });
+	});
+
+	it('should isolate a throwing sink', () => {
+		const healthy = makeMockLogger();
+		const onError = vi.fn();
+		const log = createMultiLogger(
+			[{ logger: makeThrowingLogger(), name: 'file' }, { logger: healthy }],
+			{ onError },
+		);
+		expect(() => log.error('still delivered')).not.toThrow();
+		expect(healthy.error).toHaveBeenCalledTimes(1);
+		expect(onError).toHaveBeenCalledWith(expect.any(Error), 'file');
+	});
+
+	it('should isolate a throwing filter and onError handler', () => {
+		const healthy = makeMockLogger();
+		const log = createMultiLogger(
+			[
+				{
+					logger: makeMockLogger(),
+					filter: () => {
+						throw new Error('bad filter');
+					},
+				},
+				{ logger: healthy },
+			],
+			{
+				onError: () => {
+					throw new Error('bad handler');
+				},
+			},
+		);
+		expect(() => log.info('x')).not.toThrow();
+		expect(healthy.info).toHaveBeenCalledTimes(1);
+	});
+
+	it('should count written, dropped and errored writes per sink', async () => {
+		const rejecting: Logger = {
+			...makeMockLogger(),
+			info: () => Promise.reject(new Error('async failure')) as unknown as void,
+		};
+		const log = createMultiLogger([
+			{ logger: makeMockLogger(), name: 'stdout' },
+			{ logger: makeMockLogger(), name: 'audit', level: 'error' },
+			{ logger: makeThrowingLogger(), name: 'broken' },
+			{ logger: rejecting, name: 'remote' },
+		]);
+		log.info('a');
+		log.info('b');
+		log.error('c');
+		await Promise.resolve();
+		expect(log.diagnostics()).toEqual([
+			{ name: 'stdout', written: 3, dropped: 0, errored: 0 },
+			{ name: 'audit', written: 1, dropped: 2, errored: 0 },
+			{ name: 'broken', written: 0, dropped: 0, errored: 3 },
+			{ name: 'remote', written: 3, dropped: 0, errored: 2 },
+		]);
+	});
+
+	it('should default sink names by index', () => {
+		expect(createMultiLogger([{ logger: makeMockLogger() }]).diagnostics()[0].name).toBe('sink-0');
+	});
+
+	it('should not break a procedure when a sink throws', async () => {
+		configure({ logger: createMultiLogger([{ logger: makeThrowingLogger() }]) });
+		await expect(loggingMiddleware({ ctx: {}, next: async () => 'ok' })).resolves.toBe('ok');
+	});
+});
@@ -0,0 +1,164 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import {
+	configure,
+	resetConfig,
+	createLoggingMiddleware,
+	truncatePayload,
+	TRUNCATED,
+	REDACTED,
+} from '../src/index.js';
+import type { LogContext } from '../src/index.js';
+import { makeMockLogger } from './helpers.js';
+
+const completedContext = (mock: ReturnType<typeof makeMockLogger>) =>
+	mock.info.mock.calls.find((c) => c[0] === 'tRPC procedure completed')![1] as LogContext;
+
+beforeEach(() => {
+	resetConfig();
+});
+
+afterEach(() => {
+	resetConfig();
+});
+
+describe('truncatePayload', () => {
+	it('should cap string length', () => {
+		expect(truncatePayload('abcdef', { maxStringLength: 3 })).toBe(`abc${TRUNCATED}`);
+	});
+
+	it('should cap array length', () => {
+		expect(truncatePayload([1, 2, 3, 4], { maxArrayLength: 2 })).toEqual([1, 2, TRUNCATED]);
+	});
+
+	it('should cap depth', () => {
+		expect(truncatePayload({ a: { b: { c: 1 } } }, { maxDepth: 2 })).toEqual({
+			a: { b: TRUNCATED },
+		});
+	});
+
+	it('should mark circular references', () => {
+		const value: Record<string, unknown> = { name: 'loop' };
+		value.self = value;
+		expect(truncatePayload(value)).toEqual({ name: 'loop', self: '[Circular]' });
+	});
+
+	it('should leave primitives untouched', () => {
+		expect(truncatePayload(42)).toBe(42);
+		expect(truncatePayload(null)).toBeNull();
+	});
+});
+
+describe('createLoggingMiddleware — payload logging', () => {
+	it('should not log payloads by default', async () => {
+		const mock = makeMockLogger();
+		await createLoggingMiddleware({ logger: mock })({
+			ctx: {},
+			input: { id: 1 },
+			next: async () => ({ ok: true, data: 'x' }),
+		});
+		expect(completedContext(mock)).not.toHaveProperty('input');
+		expect(completedContext(mock)).not.toHaveProperty('output');
+	});
+
+	it('should log input and the result data when enabled', async () => {
+		const mock = makeMockLogger();
+		const middleware = createLoggingMiddleware({
+			logger: mock,
+			payloads: { input: 'always', output: true },
+		});
+		await middleware({
+			ctx: {},
+			getRawInput: async () => ({ id: 7 }),
+			next: async () => ({ ok: true, data: { name: 'Ada' }, marker: 'middlewareMarker' }),
+		});
+		expect(completedContext(mock)).toEqual(
+			expect.objectContaining({ input: { id: 7 }, output: { name: 'Ada' } }),
+		);
+	});
+
+	it('should fall back to rawInput', async () => {
+		const mock = makeMockLogger();
+		const middleware = createLoggingMiddleware({ logger: mock, payloads: { input: 'always' } });
+		await middleware({ ctx: {}, rawInput: 'legacy', next: async () => null });
+		expect(completedContext(mock).input).toBe('legacy');
+	});
+
+	it('should log input only on failure when configured', async () => {
+		const mock = makeMockLogger();
+		const middleware = createLoggingMiddleware({ logger: mock, payloads: { input: 'failure' } });
+		await middleware({ ctx: {}, input: { id: 1 }, next: async () => null });
+		await expect(
+			middleware({ ctx: {}, input: { id: 2 }, next: () => Promise.reject(new Error('x')) }),
+		).rejects.toThrow();
+		expect(completedContext(mock)).not.toHaveProperty('input');
+		expect(mock.error.mock.calls[0][1]).toHaveProperty('input', { id: 2 });
+	});
+
+	it('should capture input on failure for error results', async () => {
+		const mock = makeMockLogger();
+		const middleware = createLoggingMiddleware({ logger: mock, payloads: { input: 'failure' } });
+		await middleware({
+			ctx: {},
+			input: { id: 3 },
+			next: async () => ({ ok: false, error: new Error('x') }),
+		});
+		expect(mock.info).not.toHaveBeenCalledWith('tRPC procedure completed', expect.anything());
+		expect(mock.error.mock.calls[0][1]).toHaveProperty('input', { id: 3 });
+	});
+
+	it('should apply per-procedure overrides by path glob', async () => {
+		const mock = makeMockLogger();
+		const middleware = createLoggingMiddleware({
+			logger: mock,
+			payloads: { input: 'always', procedures: { 'auth.*': { input: 'never' } } },
+		});
+		await middleware({ ctx: {}, path: 'auth.login', input: { p: 1 }, next: async () => null });
+		await middleware({ ctx: {}, path: 'posts.list', input: { p: 2 }, next: async () => null });
+		const [first, second] = mock.info.mock.calls
+			.filter((c) => c[0] === 'tRPC procedure completed')
+			.map((c) => c[1] as LogContext);
+		expect(first).not.toHaveProperty('input');
+		expect(second.input).toEqual({ p: 2 });
+	});
+
+	it('should truncate large payloads', async () => {
+		const mock = makeMockLogger();
+		const middleware = createLoggingMiddleware({
+			logger: mock,
+			payloads: { output: true, limits: { maxArrayLength: 2, maxStringLength: 4 } },
+		});
+		await middleware({ ctx: {}, next: async () => ['aaaaaa', 'b', 'c'] });
+		expect(completedContext(mock).output).toEqual([`aaaa${TRUNCATED}`, 'b', TRUNCATED]);
+	});
+
+	it('should run payloads through redaction before truncation', async () => {
+		const mock = makeMockLogger();
+		configure({
+			logger: mock,
+			redaction: { rules: [{ paths: ['input.password'] }, { patterns: ['email'] }] },
+		});
+		const middleware = createLoggingMiddleware({
+			payloads: { input: 'always', limits: { maxStringLength: 12 } },
+		});
+		await middleware({
+			ctx: {},
+			input: { password: 'hunter2', email: 'alice@example.com' },
+			next: async () => null,
+		});
+		const output = JSON.stringify(mock.info.mock.calls);
+		expect(output).not.toContain('hunter2');
+		expect(output).not.toContain('alice@exa');
+		expect(completedContext(mock).input).toEqual({ password: REDACTED, email: REDACTED });
+	});
+
+	it('should tolerate a failing getRawInput', async () => {
+		const mock = makeMockLogger();
+		const middleware = createLoggingMiddleware({ logger: mock, payloads: { input: 'always' } });
+		await middleware({
+			ctx: {},
+			getRawInput: () => Promise.reject(new Error('parse error')),
+			next: async () => 'ok',
+		});
+		expect(completedContext(mock).input).toBe('[Unavailable]');
+	});
+});
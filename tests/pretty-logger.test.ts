@@ -0,0 +1,115 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { createPrettyLogger, detectColorSupport } from '../src/index.js';
+
+function makeStream(isTTY = false) {
+	const chunks: string[] = [];
+	return {
+		stream: { isTTY, write: (chunk: string) => chunks.push(chunk) },
+		output: () => chunks.join(''),
+	};
+}
+
+afterEach(() => {
+	vi.useRealTimers();
+});
+
+describe('detectColorSupport', () => {
+	it('should follow the stream TTY state by default', () => {
+		expect(detectColorSupport({ isTTY: true, write: () => true }, {})).toBe(true);
+		expect(detectColorSupport({ isTTY: false, write: () => true }, {})).toBe(false);
+	});
+
+	it('should disable colours when NO_COLOR is set', () => {
+		expect(detectColorSupport({ isTTY: true, write: () => true }, { NO_COLOR: '1' })).toBe(false);
+	});
+
+	it('should let FORCE_COLOR win', () => {
+		const stream = { isTTY: false, write: () => true };
+		expect(detectColorSupport(stream, { FORCE_COLOR: '1', NO_COLOR: '1' })).toBe(true);
+		expect(detectColorSupport({ ...stream, isTTY: true }, { FORCE_COLOR: '0' })).toBe(false);
+	});
+});
+
+describe('createPrettyLogger', () => {
+	it('should render the procedure line with aligned duration and indented context', () => {
+		const { stream, output } = makeStream();
+		const log = createPrettyLogger({ stream, timestamps: false });
+		log.info('tRPC procedure completed', {
+			component: 'trpc-middleware',
+			procedure: 'users.get',
+			procedureType: 'query',
+			durationMs: 12.345,
+			success: true,
+		});
+		log.warn('tRPC procedure completed', {
+			component: 'trpc-middleware',
+			procedure: 'reports.build',
+			durationMs: 2500,
+			slow: true,
+		});
+		expect(output()).toMatchInlineSnapshot(`
+			"INFO  [trpc-middleware] tRPC procedure completed    users.get                           12.3ms
+			    procedureType: query
+			    success: true
+			WARN  [trpc-middleware] tRPC procedure completed    reports.build                        2.50s
+			    slow: true
+			"
+		`);
+	});
+
+	it('should print errors with multi-line stacks', () => {
+		const { stream, output } = makeStream();
+		const error = Object.assign(new Error('boom'), { code: 'E_BOOM' });
+		error.stack = 'Error: boom\n    at handler (/srv/app/router.ts:1:1)';
+		createPrettyLogger({ stream, timestamps: false }).error('job failed', {
+			component: 'jobs',
+			err: error,
+		});
+		expect(output()).toMatchInlineSnapshot(`
+			"ERROR [jobs] job failed
+			    err:
+			      Error: boom
+			          at handler (/srv/app/router.ts:1:1)
+			      {"code":"E_BOOM"}
+			"
+		`);
+	});
+
+	it('should render plain messages without component or procedure', () => {
+		const { stream, output } = makeStream();
+		createPrettyLogger({ stream, timestamps: false }).debug('hello', { nested: { a: [1, 2] } });
+		expect(output()).toMatchInlineSnapshot(`
+			"DEBUG hello
+			    nested: {"a":[1,2]}
+			"
+		`);
+	});
+
+	it('should prefix a short timestamp', () => {
+		vi.useFakeTimers();
+		vi.setSystemTime(new Date(2026, 0, 2, 3, 4, 5, 6));
+		const { stream, output } = makeStream();
+		createPrettyLogger({ stream }).info('tick');
+		expect(output()).toBe('03:04:05.006 INFO  tick\n');
+	});
+
+	it('should colourise level badges when colours are enabled', () => {
+		const { stream, output } = makeStream(true);
+		createPrettyLogger({ stream, timestamps: false, colors: true }).error('red');
+		expect(output()).toBe('\u001b[31mERROR\u001b[0m red\n');
+	});
+
+	it('should detect colours from the stream', () => {
+		const { stream, output } = makeStream(false);
+		createPrettyLogger({ stream, timestamps: false }).info('plain');
+		expect(output()).not.toContain('\u001b[');
+	});
+
+	it('should filter below the configured level', () => {
+		const { stream, output } = makeStream();
+		const log = createPrettyLogger({ stream, timestamps: false, level: 'warn' });
+		log.info('hidden');
+		log.warn('shown');
+		expect(output()).toBe('WARN  shown\n');
+	});
+});
@@ -0,0 +1,126 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import {
+	configure,
+	resetConfig,
+	loggingMiddleware,
+	createLogger,
+	runWithRequestContext,
+	getRequestId,
+	resolveRequestId,
+} from '../src/index.js';
+import type { LogContext } from '../src/index.js';
+import { makeMockLogger } from './helpers.js';
+
+beforeEach(() => {
+	resetConfig();
+});
+
+afterEach(() => {
+	resetConfig();
+});
+
+describe('resolveRequestId', () => {
+	it('should prefer ctx.requestId', () => {
+		expect(
+			resolveRequestId({ requestId: 'ctx-id', headers: { 'x-request-id': 'hdr-id' } }),
+		).toBe('ctx-id');
+	});
+
+	it('should read x-request-id from a plain header object', () => {
+		expect(resolveRequestId({ req: { headers: { 'x-request-id': 'hdr-id' } } })).toBe('hdr-id');
+	});
+
+	it('should read x-request-id from a Headers instance', () => {
+		const headers = new Headers({ 'x-request-id': 'fetch-id' });
+		expect(resolveRequestId({ req: { headers } })).toBe('fetch-id');
+	});
+
+	it('should fall back to the traceparent trace id', () => {
+		const traceparent = '00-4bf92f3577b34da6a3ce929d0e0e4736-00f067aa0ba902b7-01';
+		expect(resolveRequestId({ headers: { traceparent } })).toBe(
+			'4bf92f3577b34da6a3ce929d0e0e4736',
+		);
+	});
+
+	it('should ignore a malformed traceparent', () => {
+		const id = resolveRequestId({ headers: { traceparent: 'garbage' } });
+		expect(id).not.toBe('garbage');
+		expect(id).toMatch(/^[0-9a-f-]{36}$/);
+	});
+
+	it('should reuse the active request scope', () => {
+		runWithRequestContext({ requestId: 'outer' }, () => {
+			expect(resolveRequestId({})).toBe('outer');
+		});
+	});
+
+	it('should generate a fresh id otherwise', () => {
+		expect(resolveRequestId({})).not.toBe(resolveRequestId({}));
+	});
+});
+
+describe('loggingMiddleware — request correlation', () => {
+	it('should tag called/completed lines with the same requestId', async () => {
+		const mock = makeMockLogger();
+		configure({ logger: mock });
+		await loggingMiddleware({ ctx: {}, path: 'a.b', type: 'query', next: async () => 1 });
+		const [start, done] = mock.info.mock.calls.map((c) => (c[1] as LogContext).requestId);
+		expect(start).toBeTypeOf('string');
+		expect(done).toBe(start);
+	});
+
+	it('should tag the failure line with the requestId from ctx', async () => {
+		const mock = makeMockLogger();
+		configure({ logger: mock });
+		await expect(
+			loggingMiddleware({
+				ctx: { requestId: 'req-42' },
+				next: async () => {
+					throw new Error('x');
+				},
+			}),
+		).rejects.toThrow('x');
+		expect(mock.error).toHaveBeenCalledWith(
+			'tRPC procedure failed',
+			expect.objectContaining({ requestId: 'req-42' }),
+		);
+	});
+
+	it('should propagate the requestId to createLogger calls inside the procedure', async () => {
+		const mock = makeMockLogger();
+		configure({ logger: mock });
+		const log = createLogger('db');
+		await loggingMiddleware({
+			ctx: { headers: { 'x-request-id': 'req-7' } },
+			next: async () => {
+				await new Promise((resolve) => setTimeout(resolve, 1));
+				log.debug('query');
+				return getRequestId();
+			},
+		});
+		expect(mock.debug).toHaveBeenCalledWith(
+			'query',
+			expect.objectContaining({ component: 'db', requestId: 'req-7' }),
+		);
+	});
+
+	it('should not add requestId outside a request scope', () => {
+		const mock = makeMockLogger();
+		configure({ logger: mock });
+		createLogger('db').info('idle');
+		expect(mock.info.mock.calls[0][1]).not.toHaveProperty('requestId');
+		expect(getRequestId()).toBeUndefined();
+	});
+
+	it('should let call-site context override the scoped requestId', () => {
+		const mock = makeMockLogger();
+		configure({ logger: mock });
+		runWithRequestContext({ requestId: 'scoped' }, () => {
+			createLogger('db').info('msg', { requestId: 'explicit' });
+		});
+		expect(mock.info).toHaveBeenCalledWith(
+			'msg',
+			expect.objectContaining({ requestId: 'explicit' }),
+		);
+	});
+});
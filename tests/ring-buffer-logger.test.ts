@@ -0,0 +1,184 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import {
+	configure,
+	resetConfig,
+	createLogger,
+	createRingBufferLogger,
+	loggingMiddleware,
+} from '../src/index.js';
+import { createOptsFactory } from './helpers.js';
+
+const makeOpts = createOptsFactory({ ctx: { session: { id: 'sess-1', userId: 'user-1' } } });
+
+beforeEach(() => {
+	resetConfig();
+});
+
+afterEach(() => {
+	resetConfig();
+	vi.useRealTimers();
+});
+
+describe('createRingBufferLogger', () => {
+	it('should keep entries in order', () => {
+		const ring = createRingBufferLogger({ capacity: 10 });
+		ring.info('one', { n: 1 });
+		ring.warn('two');
+		expect(ring.query()).toEqual([
+			{ time: expect.any(Date), level: 'info', message: 'one', context: { n: 1 } },
+			{ time: expect.any(Date), level: 'warn', message: 'two' },
+		]);
+		expect(ring.size()).toBe(2);
+	});
+
+	it('should evict the oldest entries beyond capacity', () => {
+		const ring = createRingBufferLogger({ capacity: 3 });
+		for (let i = 0; i < 5; i++) ring.info(`message ${i}`);
+		expect(ring.size()).toBe(3);
+		expect(ring.query().map((entry) => entry.message)).toEqual(['message 2', 'message 3', 'message 4']);
+	});
+
+	it('should snapshot the context at write time', () => {
+		const ring = createRingBufferLogger({ capacity: 2 });
+		const context: Record<string, unknown> = { status: 'pending' };
+		ring.info('state', context);
+		context.status = 'done';
+		expect(ring.query()[0].context).toEqual({ status: 'pending' });
+	});
+
+	it('should drop writes below the configured level', () => {
+		const ring = createRingBufferLogger({ capacity: 5, level: 'info' });
+		ring.debug('hidden');
+		ring.info('shown');
+		expect(ring.query().map((entry) => entry.message)).toEqual(['shown']);
+	});
+
+	it('should reject an invalid capacity', () => {
+		expect(() => createRingBufferLogger({ capacity: 0 })).toThrow('positive integer');
+		expect(() => createRingBufferLogger({ capacity: 1.5 })).toThrow('positive integer');
+	});
+
+	it('should clear all entries', () => {
+		const ring = createRingBufferLogger({ capacity: 3 });
+		ring.info('a');
+		ring.clear();
+		ring.info('b');
+		expect(ring.size()).toBe(1);
+		expect(ring.query().map((entry) => entry.message)).toEqual(['b']);
+	});
+});
+
+describe('ring buffer query', () => {
+	it('should filter by minimum level', () => {
+		const ring = createRingBufferLogger({ capacity: 10 });
+		ring.debug('d');
+		ring.info('i');
+		ring.warn('w');
+		ring.error('e');
+		expect(ring.query({ level: 'warn' }).map((entry) => entry.message)).toEqual(['w', 'e']);
+	});
+
+	it('should filter by component with globs', () => {
+		const ring = createRingBufferLogger({ capacity: 10 });
+		ring.info('a', { component: 'billing' });
+		ring.info('b', { component: 'billing:stripe' });
+		ring.info('c', { component: 'auth' });
+		ring.info('d');
+		expect(ring.query({ component: 'billing' }).map((entry) => entry.message)).toEqual(['a']);
+		expect(ring.query({ component: 'billing*' }).map((entry) => entry.message)).toEqual(['a', 'b']);
+	});
+
+	it('should filter by procedure with path patterns', () => {
+		const ring = createRingBufferLogger({ capacity: 10 });
+		ring.info('a', { procedure: 'admin.users.list' });
+		ring.info('b', { procedure: 'admin.audit.export' });
+		ring.info('c', { procedure: 'public.health' });
+		expect(ring.query({ procedure: 'admin.users.list' }).map((entry) => entry.message)).toEqual([
+			'a',
+		]);
+		expect(ring.query({ procedure: 'admin.**' }).map((entry) => entry.message)).toEqual(['a', 'b']);
+	});
+
+	it('should filter by sessionId and userId', () => {
+		const ring = createRingBufferLogger({ capacity: 10 });
+		ring.info('a', { sessionId: 's1', userId: 'u1' });
+		ring.info('b', { sessionId: 's2', userId: 'u1' });
+		ring.info('c', { sessionId: 's1', userId: 'u2' });
+		expect(ring.query({ sessionId: 's1' }).map((entry) => entry.message)).toEqual(['a', 'c']);
+		expect(ring.query({ userId: 'u1' }).map((entry) => entry.message)).toEqual(['a', 'b']);
+		expect(ring.query({ sessionId: 's1', userId: 'u1' }).map((entry) => entry.message)).toEqual([
+			'a',
+		]);
+	});
+
+	it('should filter by time range', () => {
+		vi.useFakeTimers({ toFake: ['Date'] });
+		const ring = createRingBufferLogger({ capacity: 10 });
+		vi.setSystemTime(new Date('2026-01-01T10:00:00Z'));
+		ring.info('ten');
+		vi.setSystemTime(new Date('2026-01-01T11:00:00Z'));
+		ring.info('eleven');
+		vi.setSystemTime(new Date('2026-01-01T12:00:00Z'));
+		ring.info('twelve');
+		expect(
+			ring
+				.query({ since: new Date('2026-01-01T10:30:00Z'), until: Date.parse('2026-01-01T12:00:00Z') })
+				.map((entry) => entry.message),
+		).toEqual(['eleven', 'twelve']);
+	});
+
+	it('should match text in the message or context', () => {
+		const ring = createRingBufferLogger({ capacity: 10 });
+		ring.info('Payment FAILED');
+		ring.info('charge', { reason: 'card declined' });
+		ring.info('unrelated');
+		expect(ring.query({ text: 'failed' }).map((entry) => entry.message)).toEqual(['Payment FAILED']);
+		expect(ring.query({ text: 'declined' }).map((entry) => entry.message)).toEqual(['charge']);
+		expect(ring.query({ text: /^unrel/ }).map((entry) => entry.message)).toEqual(['unrelated']);
+	});
+
+	it('should return the most recent matches when limited', () => {
+		const ring = createRingBufferLogger({ capacity: 10 });
+		for (let i = 0; i < 5; i++) ring.info(`message ${i}`);
+		expect(ring.query({ limit: 2 }).map((entry) => entry.message)).toEqual(['message 3', 'message 4']);
+		expect(ring.query({ limit: 0 })).toEqual([]);
+	});
+
+	it('should collect middleware and component lines for a session', async () => {
+		const ring = createRingBufferLogger({ capacity: 100 });
+		configure({ logger: ring });
+
+		await loggingMiddleware(
+			makeOpts({
+				next: vi.fn().mockImplementation(async () => {
+					createLogger('users').info('Loaded users', { sessionId: 'sess-1' });
+					return { ok: true };
+				}),
+			}),
+		);
+		await loggingMiddleware(makeOpts({ ctx: { session: { id: 'sess-2', userId: 'user-2' } } }));
+
+		const lines = ring.query({ sessionId: 'sess-1' });
+		expect(lines.map((entry) => entry.message)).toEqual([
+			'tRPC procedure called',
+			'Loaded users',
+			'tRPC procedure completed',
+		]);
+
+		const requestId = lines[0].context?.requestId as string;
+		expect(ring.query({ requestId })).toEqual(lines);
+		expect(
+			ring.query({ procedure: 'admin.users.*', userId: 'user-2' }).map((entry) => entry.message),
+		).toEqual(['tRPC procedure called', 'tRPC procedure completed']);
+		expect(ring.query({ userId: 'user-2', text: 'completed' })).toHaveLength(1);
+	});
+
+	it('should find a completion line after its called line was evicted', async () => {
+		const ring = createRingBufferLogger({ capacity: 1 });
+		configure({ logger: ring });
+		await loggingMiddleware(makeOpts());
+		expect(ring.query({ sessionId: 'sess-1' }).map((entry) => entry.message)).toEqual([
+			'tRPC procedure completed',
+		]);
+	});
+});
@@ -0,0 +1,138 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import {
+	configure,
+	resetConfig,
+	getConfig,
+	runWithConfig,
+	createLogger,
+	loggingMiddleware,
+} from '../src/index.js';
+import type { Logger } from '../src/index.js';
+import { createCapturingLogger, expectLogged, expectNotLogged } from '../src/testing.js';
+import type { CapturingLogger } from '../src/testing.js';
+import { createOptsFactory } from './helpers.js';
+
+const makeOpts = createOptsFactory({ path: 'tenant.items.list' });
+
+const tick = () => new Promise((resolve) => setTimeout(resolve, 1));
+
+beforeEach(() => {
+	resetConfig();
+});
+
+afterEach(() => {
+	resetConfig();
+});
+
+describe('runWithConfig', () => {
+	it('should override getConfig inside the scope only', () => {
+		const global = createCapturingLogger();
+		const scoped = createCapturingLogger();
+		configure({ logger: global, level: 'info' });
+
+		runWithConfig({ logger: scoped }, () => {
+			expect(getConfig().logger).toBe(scoped);
+			expect(getConfig().level).toBe('info');
+		});
+		expect(getConfig().logger).toBe(global);
+	});
+
+	it('should fall back to the global config as it changes', () => {
+		const scoped = createCapturingLogger();
+		runWithConfig({ logger: scoped }, () => {
+			configure({ logger: createCapturingLogger(), level: 'error' });
+			expect(getConfig().level).toBe('error');
+			expect(getConfig().logger).toBe(scoped);
+		});
+	});
+
+	it('should route createLogger output to the scoped logger', () => {
+		const global = createCapturingLogger();
+		const scoped = createCapturingLogger();
+		configure({ logger: global });
+		const log = createLogger('billing');
+
+		runWithConfig({ logger: scoped }, () => log.info('inside'));
+		log.info('outside');
+
+		expect(scoped.entries()).toEqual([
+			{ level: 'info', message: 'inside', context: { component: 'billing' } },
+		]);
+		expect(global.entries()).toEqual([
+			{ level: 'info', message: 'outside', context: { component: 'billing' } },
+		]);
+	});
+
+	it('should apply scoped levels', () => {
+		const logs = createCapturingLogger();
+		configure({ logger: logs });
+
+		runWithConfig({ level: 'warn' }, () => {
+			createLogger('billing').info('hidden');
+			createLogger('billing').warn('shown');
+		});
+
+		expectNotLogged(logs, { message: 'hidden' });
+		expectLogged(logs, { level: 'warn', message: 'shown' });
+		expect(logs.entries()).toHaveLength(1);
+	});
+
+	it('should merge nested scopes', () => {
+		const outer = createCapturingLogger();
+		runWithConfig({ logger: outer, level: 'warn' }, () => {
+			runWithConfig({ level: 'debug' }, () => {
+				expect(getConfig().logger).toBe(outer);
+				expect(getConfig().level).toBe('debug');
+			});
+			expect(getConfig().level).toBe('warn');
+		});
+	});
+
+	it('should return the callback result, including promises', async () => {
+		expect(runWithConfig({}, () => 42)).toBe(42);
+		await expect(runWithConfig({}, async () => 'async')).resolves.toBe('async');
+	});
+
+	it('should validate redaction config eagerly', () => {
+		const fn = vi.fn();
+		expect(() =>
+			runWithConfig({ redaction: { rules: [{ paths: ['token'], strategy: 'hash' }] } }, fn),
+		).toThrow('hashKey');
+		expect(fn).not.toHaveBeenCalled();
+	});
+
+	it('should isolate concurrent middleware scopes', async () => {
+		const tenantA = createCapturingLogger();
+		const tenantB = createCapturingLogger();
+		configure({ logger: createCapturingLogger() });
+
+		const run = (logger: Logger, requestId: string) =>
+			runWithConfig({ logger }, () =>
+				loggingMiddleware(
+					makeOpts({
+						ctx: { requestId },
+						next: vi.fn().mockImplementation(async () => {
+							await tick();
+							createLogger('items').info('Loaded items');
+							await tick();
+							return { ok: true };
+						}),
+					}),
+				),
+			);
+
+		await Promise.all([run(tenantA, 'req-a'), run(tenantB, 'req-b'), run(tenantA, 'req-a2')]);
+
+		const requestIds = (logs: CapturingLogger) =>
+			new Set(logs.entries().map((entry) => entry.context?.requestId));
+		expect(tenantA.entries()).toHaveLength(6);
+		expect(requestIds(tenantA)).toEqual(new Set(['req-a', 'req-a2']));
+		expect(tenantB.entries()).toHaveLength(3);
+		expect(requestIds(tenantB)).toEqual(new Set(['req-b']));
+		expectLogged(tenantB, {
+			message: 'Loaded items',
+			context: { component: 'items', requestId: 'req-b' },
+		});
+		expect(getConfig().logger).not.toBe(tenantA);
+	});
+});
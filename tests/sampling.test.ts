@@ -0,0 +1,135 @@
+import { describe, it, expect, vi } from 'vitest';
+import { createLoggingMiddleware, hashToUnitInterval, isSampled } from '../src/index.js';
+import type { LogContext } from '../src/index.js';
+import { makeMockLogger } from './helpers.js';
+
+const findKey = (predicate: (value: number) => boolean): string => {
+	for (let i = 0; ; i++) {
+		if (predicate(hashToUnitInterval(`req-${i}`))) return `req-${i}`;
+	}
+};
+
+const IN_SAMPLE = findKey((value) => value < 0.1);
+const OUT_OF_SAMPLE = findKey((value) => value >= 0.5);
+
+describe('isSampled', () => {
+	it('should be deterministic for the same key', () => {
+		expect(isSampled('abc', 0.5)).toBe(isSampled('abc', 0.5));
+	});
+
+	it('should always sample at rate 1 and never at rate 0', () => {
+		expect(isSampled(OUT_OF_SAMPLE, 1)).toBe(true);
+		expect(isSampled(IN_SAMPLE, 0)).toBe(false);
+	});
+
+	it('should roughly follow the configured rate', () => {
+		let hits = 0;
+		for (let i = 0; i < 2000; i++) {
+			if (isSampled(`key-${i}`, 0.25)) hits++;
+		}
+		expect(hits / 2000).toBeGreaterThan(0.2);
+		expect(hits / 2000).toBeLessThan(0.3);
+	});
+});
+
+describe('createLoggingMiddleware — sampling', () => {
+	it('should log every line without a sampling config and omit sampleRate', async () => {
+		const mock = makeMockLogger();
+		await createLoggingMiddleware({ logger: mock })({ ctx: {}, next: async () => null });
+		expect(mock.info).toHaveBeenCalledTimes(2);
+		expect(mock.info.mock.calls[0][1]).not.toHaveProperty('sampleRate');
+	});
+
+	it('should keep all lines of a sampled request with sampleRate', async () => {
+		const mock = makeMockLogger();
+		const middleware = createLoggingMiddleware({ logger: mock, sampling: { rate: 0.5 } });
+		await middleware({ ctx: { requestId: IN_SAMPLE }, next: async () => null });
+		expect(mock.info).toHaveBeenCalledTimes(2);
+		for (const call of mock.info.mock.calls) {
+			expect((call[1] as LogContext).sampleRate).toBe(0.5);
+		}
+	});
+
+	it('should drop all lines of an unsampled request', async () => {
+		const mock = makeMockLogger();
+		const middleware = createLoggingMiddleware({ logger: mock, sampling: { rate: 0.5 } });
+		const result = await middleware({ ctx: { requestId: OUT_OF_SAMPLE }, next: async () => 'ok' });
+		expect(result).toBe('ok');
+		expect(mock.info).not.toHaveBeenCalled();
+	});
+
+	it('should always log failures without sampleRate', async () => {
+		const mock = makeMockLogger();
+		const middleware = createLoggingMiddleware({ logger: mock, sampling: { rate: 0 } });
+		await expect(
+			middleware({ ctx: {}, next: () => Promise.reject(new Error('x')) }),
+		).rejects.toThrow();
+		expect(mock.info).not.toHaveBeenCalled();
+		expect(mock.error).toHaveBeenCalledTimes(1);
+		expect(mock.error.mock.calls[0][1]).not.toHaveProperty('sampleRate');
+	});
+
+	it('should always log failures returned as an error result', async () => {
+		const mock = makeMockLogger();
+		const middleware = createLoggingMiddleware({ logger: mock, sampling: { rate: 0 } });
+		await middleware({ ctx: {}, next: async () => ({ ok: false, error: new Error('x') }) });
+		expect(mock.info).not.toHaveBeenCalled();
+		expect(mock.error).toHaveBeenCalledWith(
+			'tRPC procedure failed',
+			expect.objectContaining({ success: false, error: 'x' }),
+		);
+	});
+
+	it('should always log slow completions', async () => {
+		const mock = makeMockLogger();
+		let now = 1000;
+		const middleware = createLoggingMiddleware({
+			logger: mock,
+			sampling: { rate: 0, alwaysLogAboveMs: 50 },
+			clock: { now: () => now },
+		});
+		await middleware({
+			ctx: {},
+			next: async () => {
+				now += 75;
+				return null;
+			},
+		});
+		expect(mock.info).toHaveBeenCalledTimes(1);
+		expect(mock.info.mock.calls[0][0]).toBe('tRPC procedure completed');
+		expect(mock.info.mock.calls[0][1]).not.toHaveProperty('sampleRate');
+	});
+
+	it('should apply per-procedure rates by path glob', async () => {
+		const mock = makeMockLogger();
+		const middleware = createLoggingMiddleware({
+			logger: mock,
+			sampling: { rate: 1, procedures: { 'health.*': 0 } },
+		});
+		await middleware({ ctx: {}, path: 'health.ping', next: async () => null });
+		expect(mock.info).not.toHaveBeenCalled();
+		await middleware({ ctx: {}, path: 'users.get', next: async () => null });
+		expect(mock.info).toHaveBeenCalledTimes(2);
+	});
+
+	it('should sample by session so a session keeps all its requests', async () => {
+		const mock = makeMockLogger();
+		const middleware = createLoggingMiddleware({
+			logger: mock,
+			sampling: { rate: 0.5, key: 'session' },
+		});
+		for (let i = 0; i < 3; i++) {
+			await middleware({ ctx: { session: { id: IN_SAMPLE } }, next: async () => null });
+		}
+		expect(mock.info).toHaveBeenCalledTimes(6);
+	});
+
+	it('should accept a custom key function', async () => {
+		const mock = makeMockLogger();
+		const key = vi.fn().mockReturnValue(OUT_OF_SAMPLE);
+		const middleware = createLoggingMiddleware({ logger: mock, sampling: { rate: 0.5, key } });
+		await middleware({ ctx: { requestId: 'r1' }, next: async () => null });
+		expect(key).toHaveBeenCalledWith(expect.any(Object), 'r1');
+		expect(mock.info).not.toHaveBeenCalled();
+	});
+});
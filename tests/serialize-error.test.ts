@@ -0,0 +1,152 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import {
+	configure,
+	resetConfig,
+	createLogger,
+	createLoggingMiddleware,
+	serializeError,
+	resolveStackMode,
+} from '../src/index.js';
+import type { SerializedError } from '../src/index.js';
+import { makeMockLogger } from './helpers.js';
+
+beforeEach(() => {
+	resetConfig();
+});
+
+afterEach(() => {
+	resetConfig();
+});
+
+describe('serializeError', () => {
+	it('should capture name, message and stack', () => {
+		const result = serializeError(new TypeError('bad type'), { stack: 'full' });
+		expect(result.name).toBe('TypeError');
+		expect(result.message).toBe('bad type');
+		expect(result.stack).toContain('bad type');
+	});
+
+	it('should capture own enumerable properties', () => {
+		const error = Object.assign(new Error('unique'), {
+			code: 'P2002',
+			statusCode: 409,
+			meta: { target: ['email'] },
+		});
+		expect(serializeError(error, { stack: 'none' })).toEqual({
+			name: 'Error',
+			message: 'unique',
+			code: 'P2002',
+			statusCode: 409,
+			meta: { target: ['email'] },
+		});
+	});
+
+	it('should walk the cause chain', () => {
+		const root = new Error('socket hang up');
+		const error = new Error('query failed', { cause: new Error('pool exhausted', { cause: root }) });
+		const result = serializeError(error, { stack: 'none' });
+		const cause = result.cause as SerializedError;
+		expect(cause.message).toBe('pool exhausted');
+		expect((cause.cause as SerializedError).message).toBe('socket hang up');
+	});
+
+	it('should stop at the depth limit', () => {
+		const error = new Error('a', { cause: new Error('b', { cause: new Error('c') }) });
+		const result = serializeError(error, { stack: 'none', maxDepth: 1 });
+		expect((result.cause as SerializedError).cause).toBe('[Truncated]');
+	});
+
+	it('should guard against circular causes', () => {
+		const error = new Error('loop') as Error & { cause?: unknown };
+		error.cause = error;
+		expect(serializeError(error, { stack: 'none' }).cause).toBe('[Circular]');
+	});
+
+	it('should serialize non-error causes', () => {
+		const error = new Error('wrapped', { cause: 'timeout' });
+		expect(serializeError(error, { stack: 'none' }).cause).toEqual({
+			name: 'string',
+			message: 'timeout',
+		});
+	});
+
+	it('should expand AggregateError members', () => {
+		const error = new AggregateError([new Error('one'), new RangeError('two')], 'many');
+		const result = serializeError(error, { stack: 'none' });
+		expect(result.name).toBe('AggregateError');
+		expect(result.errors).toEqual([
+			{ name: 'Error', message: 'one' },
+			{ name: 'RangeError', message: 'two' },
+		]);
+	});
+
+	it('should serialize non-error values', () => {
+		expect(serializeError('oops')).toEqual({ name: 'string', message: 'oops' });
+		expect(serializeError(null)).toEqual({ name: 'null', message: 'null' });
+	});
+
+	it('should omit stacks in none mode', () => {
+		expect(serializeError(new Error('x'), { stack: 'none' })).not.toHaveProperty('stack');
+	});
+
+	it('should drop dependency frames in app mode', () => {
+		const error = new Error('x');
+		error.stack = [
+			'Error: x',
+			'    at handler (/srv/app/src/router.ts:10:5)',
+			'    at run (/srv/app/node_modules/@trpc/server/dist/index.js:1:1)',
+			'    at process.processTicksAndRejections (node:internal/process/task_queues:95:5)',
+		].join('\n');
+		expect(serializeError(error, { stack: 'app' }).stack).toBe(
+			'Error: x\n    at handler (/srv/app/src/router.ts:10:5)',
+		);
+	});
+});
+
+describe('resolveStackMode', () => {
+	it('should honour LOG_ERROR_STACK', () => {
+		expect(resolveStackMode({ LOG_ERROR_STACK: 'none', NODE_ENV: 'development' })).toBe('none');
+	});
+
+	it('should trim stacks in production by default', () => {
+		expect(resolveStackMode({ NODE_ENV: 'production' })).toBe('app');
+	});
+
+	it('should keep full stacks elsewhere', () => {
+		expect(resolveStackMode({ LOG_ERROR_STACK: 'bogus' })).toBe('full');
+	});
+});
+
+describe('error serialization in loggers', () => {
+	it('should attach the serialized error to the middleware failure line', async () => {
+		const mock = makeMockLogger();
+		const middleware = createLoggingMiddleware({
+			logger: mock,
+			errorSerialization: { stack: 'none' },
+		});
+		const error = new Error('query failed', { cause: new Error('timeout') });
+		await expect(middleware({ ctx: {}, next: () => Promise.reject(error) })).rejects.toBe(error);
+		expect(mock.error).toHaveBeenCalledWith(
+			'tRPC procedure failed',
+			expect.objectContaining({
+				error: 'query failed',
+				err: {
+					name: 'Error',
+					message: 'query failed',
+					cause: { name: 'Error', message: 'timeout' },
+				},
+			}),
+		);
+	});
+
+	it('should serialize Error values passed to createLogger', () => {
+		const mock = makeMockLogger();
+		configure({ logger: mock, errorSerialization: { stack: 'none' } });
+		createLogger('jobs').error('job failed', { err: new RangeError('out of range'), jobId: 3 });
+		expect(mock.error).toHaveBeenCalledWith('job failed', {
+			component: 'jobs',
+			jobId: 3,
+			err: { name: 'RangeError', message: 'out of range' },
+		});
+	});
+});
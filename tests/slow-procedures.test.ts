@@ -0,0 +1,115 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { createLoggingMiddleware } from '../src/index.js';
+import type { LogContext } from '../src/index.js';
+import { makeMockLogger } from './helpers.js';
+
+const delay = (ms: number) => () => new Promise((resolve) => setTimeout(() => resolve('done'), ms));
+
+beforeEach(() => {
+	vi.useFakeTimers();
+});
+
+afterEach(() => {
+	vi.useRealTimers();
+});
+
+describe('createLoggingMiddleware — slow procedures', () => {
+	it('should keep fast completions at info', async () => {
+		const mock = makeMockLogger();
+		const middleware = createLoggingMiddleware({ logger: mock, slow: { thresholdMs: 100 } });
+		const pending = middleware({ ctx: {}, next: delay(20) });
+		await vi.advanceTimersByTimeAsync(20);
+		await pending;
+		expect(mock.warn).not.toHaveBeenCalled();
+		expect(mock.info.mock.calls[1][1]).not.toHaveProperty('slow');
+	});
+
+	it('should raise slow completions to warn with the threshold', async () => {
+		const mock = makeMockLogger();
+		const middleware = createLoggingMiddleware({ logger: mock, slow: { thresholdMs: 100 } });
+		const pending = middleware({ ctx: {}, path: 'reports.build', next: delay(150) });
+		await vi.advanceTimersByTimeAsync(150);
+		await pending;
+		expect(mock.info).toHaveBeenCalledTimes(1);
+		expect(mock.warn).toHaveBeenCalledWith(
+			'tRPC procedure completed',
+			expect.objectContaining({ slow: true, slowThresholdMs: 100, success: true }),
+		);
+	});
+
+	it('should prefer per-path thresholds', async () => {
+		const mock = makeMockLogger();
+		const middleware = createLoggingMiddleware({
+			logger: mock,
+			slow: { thresholdMs: 100, procedures: { 'reports.*': 1000 } },
+		});
+		const pending = middleware({ ctx: {}, path: 'reports.build', next: delay(150) });
+		await vi.advanceTimersByTimeAsync(150);
+		await pending;
+		expect(mock.warn).not.toHaveBeenCalled();
+	});
+
+	it('should always log slow calls even when sampled out', async () => {
+		const mock = makeMockLogger();
+		const middleware = createLoggingMiddleware({
+			logger: mock,
+			sampling: { rate: 0 },
+			slow: { thresholdMs: 10 },
+		});
+		const pending = middleware({ ctx: {}, next: delay(20) });
+		await vi.advanceTimersByTimeAsync(20);
+		await pending;
+		expect(mock.warn).toHaveBeenCalledTimes(1);
+	});
+
+	it('should warn while a procedure is still running past the hard limit', async () => {
+		const mock = makeMockLogger();
+		const middleware = createLoggingMiddleware({
+			logger: mock,
+			slow: { stillRunningAfterMs: 500 },
+		});
+		const pending = middleware({ ctx: { requestId: 'hung' }, next: delay(2000) });
+		await vi.advanceTimersByTimeAsync(500);
+		expect(mock.warn).toHaveBeenCalledWith(
+			'tRPC procedure still running',
+			expect.objectContaining({ requestId: 'hung', stillRunningAfterMs: 500 }),
+		);
+		expect(mock.info).toHaveBeenCalledTimes(1);
+		await vi.advanceTimersByTimeAsync(1500);
+		await pending;
+		expect(mock.warn).toHaveBeenCalledTimes(1);
+		expect((mock.info.mock.calls[1][1] as LogContext).success).toBe(true);
+	});
+
+	it('should cancel the still-running warning when the call settles', async () => {
+		const mock = makeMockLogger();
+		const middleware = createLoggingMiddleware({
+			logger: mock,
+			slow: { stillRunningAfterMs: 500 },
+		});
+		const pending = middleware({
+			ctx: {},
+			next: () => new Promise((_, reject) => setTimeout(() => reject(new Error('x')), 100)),
+		});
+		const settled = expect(pending).rejects.toThrow('x');
+		await vi.advanceTimersByTimeAsync(1000);
+		await settled;
+		expect(mock.warn).not.toHaveBeenCalled();
+	});
+
+	it('should survive a logger that throws from the still-running warning', async () => {
+		const mock = makeMockLogger();
+		mock.warn.mockImplementation(() => {
+			throw new Error('sink down');
+		});
+		const middleware = createLoggingMiddleware({
+			logger: mock,
+			slow: { stillRunningAfterMs: 500 },
+		});
+		const pending = middleware({ ctx: {}, next: delay(1000) });
+		await vi.advanceTimersByTimeAsync(1000);
+		await expect(pending).resolves.toBe('done');
+		expect(mock.warn).toHaveBeenCalledTimes(1);
+		expect(mock.info).toHaveBeenCalledWith('tRPC procedure completed', expect.anything());
+	});
+});
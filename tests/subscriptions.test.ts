@@ -0,0 +1,466 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import {
+	resetConfig,
+	createInMemoryTracer,
+	createLoggingMiddleware,
+	createMetricsRegistry,
+} from '../src/index.js';
+import type { Logger } from '../src/index.js';
+import { createCapturingLogger, expectLogged, expectNotLogged } from '../src/testing.js';
+import type { CapturingLogger } from '../src/testing.js';
+import { makeClock } from './helpers.js';
+
+interface TestObserver {
+	next?(value: unknown): void;
+	error?(error: unknown): void;
+	complete?(): void;
+}
+
+interface TestObservable {
+	subscribe(observer: TestObserver): { unsubscribe(): void };
+	pipe?(...operators: ((source: TestObservable) => TestObservable)[]): TestObservable;
+}
+
+function makeSubject() {
+	let observer: TestObserver | undefined;
+	const unsubscribe = vi.fn();
+	const observable: TestObservable = {
+		subscribe: (next) => {
+			observer = next;
+			return { unsubscribe };
+		},
+	};
+	return {
+		observable,
+		unsubscribe,
+		next: (value: unknown) => observer?.next?.(value),
+		error: (error: unknown) => observer?.error?.(error),
+		complete: () => observer?.complete?.(),
+	};
+}
+
+function makeOpts(data: unknown, overrides: Record<string, unknown> = {}) {
+	return {
+		ctx: {},
+		path: 'chat.onMessage',
+		type: 'subscription',
+		next: vi.fn().mockResolvedValue({ ok: true, data }),
+		...overrides,
+	};
+}
+
+const messages = (logs: CapturingLogger) => logs.entries().map((entry) => entry.message);
+
+const count = (logs: CapturingLogger, message: string) =>
+	messages(logs).filter((logged) => logged === message).length;
+
+beforeEach(() => {
+	resetConfig();
+});
+
+afterEach(() => {
+	resetConfig();
+	vi.useRealTimers();
+});
+
+describe('subscription logging with observables', () => {
+	it('should log opened instead of completed when next resolves', async () => {
+		const logs = createCapturingLogger();
+		const subject = makeSubject();
+		await createLoggingMiddleware({ logger: logs })(makeOpts(subject.observable));
+
+		expect(messages(logs)).toEqual(['tRPC procedure called', 'tRPC subscription opened']);
+		const opened = expectLogged(logs, {
+			level: 'info',
+			message: 'tRPC subscription opened',
+			context: { procedure: 'chat.onMessage', procedureType: 'subscription' },
+		});
+		expect(opened.context?.durationMs).toEqual(expect.any(Number));
+	});
+
+	it('should count events and log the lifetime on completion', async () => {
+		const logs = createCapturingLogger();
+		const subject = makeSubject();
+		const result = (await createLoggingMiddleware({
+			logger: logs,
+			clock: makeClock(1000, 1005, 4000),
+		})(makeOpts(subject.observable))) as { ok: boolean; data: TestObservable };
+
+		const received: unknown[] = [];
+		result.data.subscribe({ next: (value) => received.push(value) });
+		subject.next('a');
+		subject.next('b');
+		subject.complete();
+
+		expect(received).toEqual(['a', 'b']);
+		expect(result.ok).toBe(true);
+		expect(logs.entries().at(-1)).toEqual({
+			level: 'info',
+			message: 'tRPC subscription closed',
+			context: {
+				component: 'trpc-middleware',
+				procedure: 'chat.onMessage',
+				procedureType: 'subscription',
+				requestId: expect.any(String),
+				lifetimeMs: 3000,
+				eventCount: 2,
+				success: true,
+			},
+		});
+	});
+
+	it('should log a single close when the client unsubscribes', async () => {
+		const logs = createCapturingLogger();
+		const subject = makeSubject();
+		const result = (await createLoggingMiddleware({ logger: logs })(
+			makeOpts(subject.observable),
+		)) as { data: TestObservable };
+
+		const subscription = result.data.subscribe({});
+		subject.next('a');
+		subscription.unsubscribe();
+		subject.complete();
+
+		expect(subject.unsubscribe).toHaveBeenCalledTimes(1);
+		expect(count(logs, 'tRPC subscription closed')).toBe(1);
+		expectLogged(logs, { message: 'tRPC subscription closed', context: { eventCount: 1 } });
+	});
+
+	it('should log stream errors with classification', async () => {
+		const logs = createCapturingLogger();
+		const subject = makeSubject();
+		const result = (await createLoggingMiddleware({ logger: logs })(
+			makeOpts(subject.observable),
+		)) as { data: TestObservable };
+
+		const onError = vi.fn();
+		result.data.subscribe({ error: onError });
+		subject.next('a');
+		const error = Object.assign(new Error('Session expired'), { code: 'UNAUTHORIZED' });
+		subject.error(error);
+
+		expect(onError).toHaveBeenCalledWith(error);
+		const failed = expectLogged(logs, {
+			level: 'warn',
+			message: 'tRPC subscription failed',
+			context: {
+				eventCount: 1,
+				success: false,
+				error: 'Session expired',
+				code: 'UNAUTHORIZED',
+				httpStatus: 401,
+			},
+		});
+		expect(failed.context?.lifetimeMs).toEqual(expect.any(Number));
+		expectNotLogged(logs, { message: 'tRPC subscription closed' });
+	});
+
+	it('should keep pipe working on the instrumented observable', async () => {
+		const subject = makeSubject();
+		const result = (await createLoggingMiddleware({ logger: createCapturingLogger() })(
+			makeOpts(subject.observable),
+		)) as { data: TestObservable };
+
+		const identity = vi.fn((source: TestObservable) => source);
+		expect(result.data.pipe?.(identity)).toBe(result.data);
+		expect(identity).toHaveBeenCalledWith(result.data);
+	});
+
+	it('should instrument an observable returned without a result envelope', async () => {
+		const logs = createCapturingLogger();
+		const subject = makeSubject();
+		const result = (await createLoggingMiddleware({ logger: logs })(
+			makeOpts(undefined, { next: vi.fn().mockResolvedValue(subject.observable) }),
+		)) as TestObservable;
+
+		result.subscribe({});
+		subject.complete();
+		expectLogged(logs, { message: 'tRPC subscription closed' });
+	});
+});
+
+describe('subscription logging with async iterables', () => {
+	async function* stream(values: unknown[], failure?: Error) {
+		for (const value of values) yield value;
+		if (failure !== undefined) throw failure;
+	}
+
+	it('should count yielded values and log on completion', async () => {
+		const logs = createCapturingLogger();
+		const result = (await createLoggingMiddleware({ logger: logs })(
+			makeOpts(stream([1, 2, 3])),
+		)) as { data: AsyncIterable<unknown> };
+
+		const received: unknown[] = [];
+		for await (const value of result.data) received.push(value);
+
+		expect(received).toEqual([1, 2, 3]);
+		expectLogged(logs, {
+			message: 'tRPC subscription closed',
+			context: { eventCount: 3, success: true },
+		});
+	});
+
+	it('should log a close when the consumer stops early', async () => {
+		const logs = createCapturingLogger();
+		const result = (await createLoggingMiddleware({ logger: logs })(
+			makeOpts(stream([1, 2, 3])),
+		)) as { data: AsyncIterable<unknown> };
+
+		for await (const value of result.data) {
+			if (value === 2) break;
+		}
+
+		expectLogged(logs, { message: 'tRPC subscription closed', context: { eventCount: 2 } });
+	});
+
+	it('should settle when the consumer cancels before the first event', async () => {
+		vi.useFakeTimers();
+		const logs = createCapturingLogger();
+		const metrics = createMetricsRegistry();
+		const tracer = createInMemoryTracer();
+		const source = stream([1, 2, 3]);
+		const result = (await createLoggingMiddleware({
+			logger: logs,
+			metrics,
+			tracer,
+			subscriptions: { heartbeatIntervalMs: 1000 },
+		})(makeOpts(source))) as { data: AsyncIterableIterator<unknown> };
+
+		await expect(result.data.return?.()).resolves.toEqual({ done: true, value: undefined });
+
+		expectLogged(logs, {
+			message: 'tRPC subscription closed',
+			context: { eventCount: 0, success: true },
+		});
+		expect(tracer.spans()[0].endTime).toEqual(expect.any(Number));
+		expect(metrics.render()).toContain(
+			'trpc_procedure_in_flight{path="chat.onMessage",type="subscription"} 0',
+		);
+		await expect(source.next()).resolves.toEqual({ done: true, value: undefined });
+
+		vi.advanceTimersByTime(5000);
+		expectNotLogged(logs, { message: 'tRPC subscription active' });
+		await expect(result.data.next()).resolves.toEqual({ done: true, value: undefined });
+		expect(count(logs, 'tRPC subscription closed')).toBe(1);
+	});
+
+	it('should log a failure when the consumer throws into the iterator', async () => {
+		const logs = createCapturingLogger();
+		const result = (await createLoggingMiddleware({ logger: logs })(
+			makeOpts(stream([1, 2])),
+		)) as { data: AsyncIterableIterator<unknown> };
+
+		await result.data.next();
+		await expect(result.data.throw?.(new Error('client went away'))).rejects.toThrow(
+			'client went away',
+		);
+		expectLogged(logs, {
+			level: 'error',
+			message: 'tRPC subscription failed',
+			context: { eventCount: 1, error: 'client went away' },
+		});
+		expectNotLogged(logs, { message: 'tRPC subscription closed' });
+	});
+
+	it('should log errors thrown by the iterator', async () => {
+		const logs = createCapturingLogger();
+		const result = (await createLoggingMiddleware({ logger: logs })(
+			makeOpts(stream([1], new Error('stream broke'))),
+		)) as { data: AsyncIterable<unknown> };
+
+		await expect(async () => {
+			for await (const _ of result.data) {
+				// drain
+			}
+		}).rejects.toThrow('stream broke');
+
+		expectLogged(logs, {
+			level: 'error',
+			message: 'tRPC subscription failed',
+			context: { eventCount: 1, code: 'INTERNAL_SERVER_ERROR' },
+		});
+		expectNotLogged(logs, { message: 'tRPC subscription closed' });
+	});
+});
+
+describe('subscription heartbeats', () => {
+	it('should emit periodic heartbeat lines until the stream closes', async () => {
+		vi.useFakeTimers();
+		const logs = createCapturingLogger();
+		const subject = makeSubject();
+		const result = (await createLoggingMiddleware({
+			logger: logs,
+			subscriptions: { heartbeatIntervalMs: 1000 },
+		})(makeOpts(subject.observable))) as { data: TestObservable };
+
+		result.data.subscribe({});
+		subject.next('a');
+		vi.advanceTimersByTime(2500);
+
+		expect(count(logs, 'tRPC subscription active')).toBe(2);
+		const heartbeat = expectLogged(logs, {
+			level: 'info',
+			message: 'tRPC subscription active',
+			context: { eventCount: 1 },
+		});
+		expect(heartbeat.context?.lifetimeMs).toEqual(expect.any(Number));
+
+		subject.complete();
+		vi.advanceTimersByTime(5000);
+		expect(count(logs, 'tRPC subscription active')).toBe(2);
+	});
+
+	it('should keep the heartbeat going when the logger throws', async () => {
+		vi.useFakeTimers();
+		const logs = createCapturingLogger();
+		let heartbeats = 0;
+		const logger: Logger = {
+			...logs,
+			info: (message, context) => {
+				if (message === 'tRPC subscription active') {
+					heartbeats++;
+					throw new Error('sink down');
+				}
+				logs.info(message, context);
+			},
+		};
+		const subject = makeSubject();
+		const result = (await createLoggingMiddleware({
+			logger,
+			subscriptions: { heartbeatIntervalMs: 1000 },
+		})(makeOpts(subject.observable))) as { data: TestObservable };
+
+		result.data.subscribe({});
+		expect(() => vi.advanceTimersByTime(2500)).not.toThrow();
+		expect(heartbeats).toBe(2);
+
+		subject.complete();
+		expectLogged(logs, { message: 'tRPC subscription closed' });
+	});
+
+	it('should not emit heartbeats unless configured', async () => {
+		vi.useFakeTimers();
+		const logs = createCapturingLogger();
+		await createLoggingMiddleware({ logger: logs })(makeOpts(makeSubject().observable));
+		vi.advanceTimersByTime(60_000);
+		expectNotLogged(logs, { message: 'tRPC subscription active' });
+	});
+});
+
+describe('subscription fallbacks and integrations', () => {
+	it('should log completed when a subscription returns no stream', async () => {
+		const logs = createCapturingLogger();
+		await createLoggingMiddleware({ logger: logs })(makeOpts({ value: 1 }));
+		expect(messages(logs)).toEqual(['tRPC procedure called', 'tRPC procedure completed']);
+	});
+
+	it('should not instrument streams returned by queries', async () => {
+		const logs = createCapturingLogger();
+		const subject = makeSubject();
+		const result = await createLoggingMiddleware({ logger: logs })(
+			makeOpts(subject.observable, { type: 'query' }),
+		);
+		expect(result).toEqual({ ok: true, data: subject.observable });
+		expect(messages(logs)).toEqual(['tRPC procedure called', 'tRPC procedure completed']);
+	});
+
+	it('should keep the procedure in flight and the span open until close', async () => {
+		const metrics = createMetricsRegistry();
+		const tracer = createInMemoryTracer();
+		const subject = makeSubject();
+		const result = (await createLoggingMiddleware({
+			logger: createCapturingLogger(),
+			metrics,
+			tracer,
+		})(makeOpts(subject.observable))) as { data: TestObservable };
+
+		expect(metrics.render()).toContain(
+			'trpc_procedure_in_flight{path="chat.onMessage",type="subscription"} 1',
+		);
+		expect(tracer.spans()[0].endTime).toBeUndefined();
+
+		result.data.subscribe({});
+		subject.complete();
+
+		expect(metrics.render()).toContain(
+			'trpc_procedure_in_flight{path="chat.onMessage",type="subscription"} 0',
+		);
+		expect(metrics.render()).toContain(
+			'trpc_procedure_calls_total{path="chat.onMessage",type="subscription",outcome="success"} 1',
+		);
+		expect(tracer.spans()[0].endTime).toEqual(expect.any(Number));
+	});
+
+	it('should close a never-subscribed stream when the request is aborted', async () => {
+		vi.useFakeTimers();
+		const logs = createCapturingLogger();
+		const metrics = createMetricsRegistry();
+		const tracer = createInMemoryTracer();
+		const controller = new AbortController();
+		const subject = makeSubject();
+		const result = (await createLoggingMiddleware({
+			logger: logs,
+			metrics,
+			tracer,
+			subscriptions: { heartbeatIntervalMs: 1000 },
+		})(makeOpts(subject.observable, { signal: controller.signal }))) as { data: TestObservable };
+
+		controller.abort();
+
+		expectLogged(logs, {
+			message: 'tRPC subscription closed',
+			context: { eventCount: 0, success: true },
+		});
+		expect(tracer.spans()[0].endTime).toEqual(expect.any(Number));
+		expect(metrics.render()).toContain(
+			'trpc_procedure_in_flight{path="chat.onMessage",type="subscription"} 0',
+		);
+		vi.advanceTimersByTime(5000);
+		expectNotLogged(logs, { message: 'tRPC subscription active' });
+
+		result.data.subscribe({}).unsubscribe();
+		expect(count(logs, 'tRPC subscription closed')).toBe(1);
+	});
+
+	it('should close immediately when the request was already aborted', async () => {
+		const logs = createCapturingLogger();
+		await createLoggingMiddleware({ logger: logs })(
+			makeOpts(makeSubject().observable, { signal: AbortSignal.abort() }),
+		);
+		expect(messages(logs)).toEqual([
+			'tRPC procedure called',
+			'tRPC subscription opened',
+			'tRPC subscription closed',
+		]);
+	});
+
+	it('should stop listening for aborts once the stream closes', async () => {
+		const logs = createCapturingLogger();
+		const controller = new AbortController();
+		const subject = makeSubject();
+		const result = (await createLoggingMiddleware({ logger: logs })(
+			makeOpts(subject.observable, { signal: controller.signal }),
+		)) as { data: TestObservable };
+
+		result.data.subscribe({});
+		subject.complete();
+		controller.abort();
+		expect(count(logs, 'tRPC subscription closed')).toBe(1);
+	});
+
+	it('should skip lifecycle lines for unsampled subscriptions but keep failures', async () => {
+		const logs = createCapturingLogger();
+		const subject = makeSubject();
+		const result = (await createLoggingMiddleware({
+			logger: logs,
+			sampling: { rate: 0 },
+			subscriptions: { heartbeatIntervalMs: 10 },
+		})(makeOpts(subject.observable))) as { data: TestObservable };
+
+		result.data.subscribe({ error: () => {} });
+		subject.error(new Error('gone'));
+
+		expect(messages(logs)).toEqual(['tRPC subscription failed']);
+	});
+});
@@ -0,0 +1,159 @@
+import { AssertionError } from 'node:assert';
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { createLogger, getConfig, getNoopLogger, loggingMiddleware, resetConfig } from '../src/index.js';
+import {
+	createCapturingLogger,
+	expectLogged,
+	expectNotLogged,
+	withCapturedLogs,
+} from '../src/testing.js';
+import { createOptsFactory } from './helpers.js';
+
+const makeOpts = createOptsFactory({ ctx: { session: { id: 'sess-1', userId: 'user-1' } } });
+
+function catchAssertion(fn: () => unknown): AssertionError {
+	try {
+		fn();
+	} catch (error: unknown) {
+		if (error instanceof AssertionError) return error;
+		throw error;
+	}
+	throw new Error('Expected an AssertionError');
+}
+
+beforeEach(() => {
+	resetConfig();
+});
+
+afterEach(() => {
+	resetConfig();
+});
+
+describe('createCapturingLogger', () => {
+	it('should record typed entries in order', () => {
+		const logs = createCapturingLogger();
+		logs.info('first', { n: 1 });
+		logs.error('second');
+		expect(logs.entries()).toEqual([
+			{ level: 'info', message: 'first', context: { n: 1 } },
+			{ level: 'error', message: 'second' },
+		]);
+	});
+
+	it('should clear recorded entries', () => {
+		const logs = createCapturingLogger();
+		logs.warn('gone');
+		logs.clear();
+		expect(logs.entries()).toEqual([]);
+	});
+});
+
+describe('expectLogged', () => {
+	it('should return the first matching entry', () => {
+		const logs = createCapturingLogger();
+		logs.info('tRPC procedure called', { procedure: 'a.b', requestId: 'r1' });
+		const entry = expectLogged(logs, {
+			level: 'info',
+			message: /called$/,
+			context: { procedure: 'a.b' },
+		});
+		expect(entry.context?.requestId).toBe('r1');
+	});
+
+	it('should match nested context partially', () => {
+		const logs = createCapturingLogger();
+		logs.error('failed', { err: { name: 'Error', message: 'boom', stack: '...' }, code: 'X' });
+		expectLogged(logs, { context: { err: { message: 'boom' } } });
+	});
+
+	it('should report the captured entries and a focused diff', () => {
+		const logs = createCapturingLogger();
+		logs.info('tRPC procedure completed', { procedure: 'a.b', durationMs: 12, success: true });
+		logs.debug('unrelated');
+
+		const error = catchAssertion(() =>
+			expectLogged(logs, {
+				level: 'info',
+				message: 'tRPC procedure completed',
+				context: { success: false },
+			}),
+		);
+
+		expect(error.message).toContain('Expected a log entry matching');
+		expect(error.message).toContain('[info] tRPC procedure completed {"procedure":"a.b"');
+		expect(error.message).toContain('[debug] unrelated');
+		expect(error.actual).toEqual({
+			level: 'info',
+			message: 'tRPC procedure completed',
+			context: { success: true },
+		});
+		expect(error.expected).toEqual({
+			level: 'info',
+			message: 'tRPC procedure completed',
+			context: { success: false },
+		});
+	});
+
+	it('should say when nothing was captured', () => {
+		const error = catchAssertion(() => expectLogged(createCapturingLogger(), { level: 'error' }));
+		expect(error.message).toContain('(no log entries captured)');
+	});
+});
+
+describe('expectNotLogged', () => {
+	it('should pass when no entry matches', () => {
+		const logs = createCapturingLogger();
+		logs.info('fine');
+		expectNotLogged(logs, { level: 'error' });
+	});
+
+	it('should list the offending entries', () => {
+		const logs = createCapturingLogger();
+		logs.error('boom', { code: 'INTERNAL_SERVER_ERROR' });
+		const error = catchAssertion(() => expectNotLogged(logs, { level: 'error' }));
+		expect(error.message).toContain('found 1');
+		expect(error.message).toContain('[error] boom {"code":"INTERNAL_SERVER_ERROR"}');
+	});
+});
+
+describe('withCapturedLogs', () => {
+	it('should capture logs from the global config and reset afterwards', async () => {
+		const result = await withCapturedLogs(async (logs) => {
+			await loggingMiddleware(makeOpts());
+			createLogger('users').info('Loaded users');
+			expectLogged(logs, { message: 'tRPC procedure called', context: { sessionId: 'sess-1' } });
+			expectLogged(logs, { message: 'Loaded users', context: { component: 'users' } });
+			return 'done';
+		});
+		expect(result).toBe('done');
+		expect(getConfig().logger).toBe(getNoopLogger());
+	});
+
+	it('should apply the extra config while capturing', () => {
+		withCapturedLogs(
+			(logs) => {
+				createLogger('users').info('hidden');
+				createLogger('users').warn('shown');
+				expectNotLogged(logs, { message: 'hidden' });
+				expectLogged(logs, { level: 'warn', message: 'shown' });
+			},
+			{ level: 'warn' },
+		);
+	});
+
+	it('should reset the config when the callback throws', async () => {
+		expect(() =>
+			withCapturedLogs(() => {
+				throw new Error('sync');
+			}),
+		).toThrow('sync');
+		expect(getConfig().logger).toBe(getNoopLogger());
+
+		await expect(
+			withCapturedLogs(async () => {
+				throw new Error('async');
+			}),
+		).rejects.toThrow('async');
+		expect(getConfig().logger).toBe(getNoopLogger());
+	});
+});
@@ -0,0 +1,274 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import {
+	configure,
+	resetConfig,
+	createInMemoryTracer,
+	createLoggingMiddleware,
+	formatTraceparent,
+	formatTracestate,
+	generateSpanId,
+	generateTraceId,
+	getTraceContext,
+	getTraceHeaders,
+	parseTraceparent,
+	parseTracestate,
+	runWithRequestContext,
+	TRACE_FLAG_SAMPLED,
+} from '../src/index.js';
+import { createCapturingLogger, expectLogged, expectNotLogged } from '../src/testing.js';
+import { createOptsFactory } from './helpers.js';
+
+const TRACE_ID = '4bf92f3577b34da6a3ce929d0e0e4736';
+const PARENT_ID = '00f067aa0ba902b7';
+const TRACEPARENT = `00-${TRACE_ID}-${PARENT_ID}-01`;
+
+const makeOpts = createOptsFactory({ path: 'orders.create', type: 'mutation' });
+
+beforeEach(() => {
+	resetConfig();
+});
+
+afterEach(() => {
+	resetConfig();
+});
+
+describe('parseTraceparent', () => {
+	it('should parse a valid version 00 header', () => {
+		expect(parseTraceparent(TRACEPARENT)).toEqual({
+			version: '00',
+			traceId: TRACE_ID,
+			parentId: PARENT_ID,
+			traceFlags: 1,
+		});
+	});
+
+	it('should tolerate surrounding whitespace', () => {
+		expect(parseTraceparent(`  ${TRACEPARENT} `)?.traceId).toBe(TRACE_ID);
+	});
+
+	it('should keep unknown flags', () => {
+		expect(parseTraceparent(`00-${TRACE_ID}-${PARENT_ID}-00`)?.traceFlags).toBe(0);
+		expect(parseTraceparent(`00-${TRACE_ID}-${PARENT_ID}-03`)?.traceFlags).toBe(3);
+		expect(parseTraceparent(`00-${TRACE_ID}-${PARENT_ID}-ff`)?.traceFlags).toBe(0xff);
+	});
+
+	it.each([
+		['missing header', undefined],
+		['garbage', 'garbage'],
+		['forbidden version ff', `ff-${TRACE_ID}-${PARENT_ID}-01`],
+		['non-hex version', `0x-${TRACE_ID}-${PARENT_ID}-01`],
+		['all-zero trace id', `00-${'0'.repeat(32)}-${PARENT_ID}-01`],
+		['all-zero parent id', `00-${TRACE_ID}-${'0'.repeat(16)}-01`],
+		['uppercase hex', `00-${TRACE_ID.toUpperCase()}-${PARENT_ID}-01`],
+		['short trace id', `00-${TRACE_ID.slice(1)}-${PARENT_ID}-01`],
+		['short parent id', `00-${TRACE_ID}-${PARENT_ID.slice(1)}-01`],
+		['invalid flags', `00-${TRACE_ID}-${PARENT_ID}-0g`],
+		['single-digit flags', `00-${TRACE_ID}-${PARENT_ID}-1`],
+		['trailing data on version 00', `${TRACEPARENT}-extra`],
+		['future version without separator', `cc-${TRACE_ID}-${PARENT_ID}-01extra`],
+	])('should reject %s', (_, header) => {
+		expect(parseTraceparent(header)).toBeUndefined();
+	});
+
+	it('should accept future versions with additional fields', () => {
+		expect(parseTraceparent(`cc-${TRACE_ID}-${PARENT_ID}-01-what-the-future-holds`)).toEqual({
+			version: 'cc',
+			traceId: TRACE_ID,
+			parentId: PARENT_ID,
+			traceFlags: 1,
+		});
+	});
+});
+
+describe('formatTraceparent', () => {
+	it('should format a version 00 header', () => {
+		expect(formatTraceparent({ traceId: TRACE_ID, spanId: PARENT_ID, traceFlags: 1 })).toBe(
+			TRACEPARENT,
+		);
+		expect(formatTraceparent({ traceId: TRACE_ID, spanId: PARENT_ID, traceFlags: 0 })).toBe(
+			`00-${TRACE_ID}-${PARENT_ID}-00`,
+		);
+	});
+
+	it('should reject invalid ids', () => {
+		expect(() =>
+			formatTraceparent({ traceId: '0'.repeat(32), spanId: PARENT_ID, traceFlags: 1 }),
+		).toThrow('Invalid trace id');
+		expect(() => formatTraceparent({ traceId: TRACE_ID, spanId: 'xyz', traceFlags: 1 })).toThrow(
+			'Invalid span id',
+		);
+	});
+
+	it('should round-trip through parseTraceparent', () => {
+		const traceId = generateTraceId();
+		const spanId = generateSpanId();
+		const parsed = parseTraceparent(formatTraceparent({ traceId, spanId, traceFlags: 1 }));
+		expect(parsed).toEqual({ version: '00', traceId, parentId: spanId, traceFlags: 1 });
+	});
+});
+
+describe('generateTraceId and generateSpanId', () => {
+	it('should generate lowercase hex ids of the right length', () => {
+		expect(generateTraceId()).toMatch(/^[0-9a-f]{32}$/);
+		expect(generateSpanId()).toMatch(/^[0-9a-f]{16}$/);
+		expect(generateSpanId()).not.toBe(generateSpanId());
+	});
+});
+
+describe('parseTracestate', () => {
+	it('should parse list members in order', () => {
+		const state = parseTracestate('rojo=00f067aa0ba902b7, congo=t61rcWkgMzE,,tenant@vendor=x');
+		expect([...(state ?? [])]).toEqual([
+			['rojo', '00f067aa0ba902b7'],
+			['congo', 't61rcWkgMzE'],
+			['tenant@vendor', 'x'],
+		]);
+	});
+
+	it.each([
+		['missing equals', 'rojo'],
+		['uppercase key', 'Rojo=1'],
+		['invalid value character', 'rojo=a,b=c=d'],
+		['empty value', 'rojo='],
+		['overlong key', `${'k'.repeat(257)}=1`],
+		['duplicate keys', 'rojo=1,rojo=2'],
+		['too many members', Array.from({ length: 33 }, (_, i) => `k${i}=v`).join(',')],
+	])('should reject %s', (_, header) => {
+		expect(parseTracestate(header)).toBeUndefined();
+	});
+
+	it('should format entries back into a header', () => {
+		expect(formatTracestate(new Map([['rojo', '1'], ['congo', '2']]))).toBe('rojo=1,congo=2');
+	});
+});
+
+describe('middleware trace propagation', () => {
+	it('should continue an incoming trace with a child span id', async () => {
+		const logs = createCapturingLogger();
+		let inside: ReturnType<typeof getTraceContext>;
+		await createLoggingMiddleware({ logger: logs })(
+			makeOpts({
+				ctx: { headers: { traceparent: TRACEPARENT, tracestate: 'rojo=1' } },
+				next: vi.fn().mockImplementation(async () => {
+					inside = getTraceContext();
+					return { ok: true };
+				}),
+			}),
+		);
+
+		expect(inside).toEqual({
+			traceId: TRACE_ID,
+			spanId: expect.stringMatching(/^[0-9a-f]{16}$/),
+			traceFlags: 1,
+			traceState: 'rojo=1',
+		});
+		expect(inside?.spanId).not.toBe(PARENT_ID);
+		expectLogged(logs, {
+			message: 'tRPC procedure called',
+			context: { traceId: TRACE_ID, spanId: inside?.spanId },
+		});
+	});
+
+	it('should expose headers for outbound calls', async () => {
+		let headers: Record<string, string> = {};
+		await createLoggingMiddleware()(
+			makeOpts({
+				ctx: { req: { headers: { traceparent: `00-${TRACE_ID}-${PARENT_ID}-00` } } },
+				next: vi.fn().mockImplementation(async () => {
+					headers = getTraceHeaders();
+					return { ok: true };
+				}),
+			}),
+		);
+
+		expect(headers.traceparent).toMatch(new RegExp(`^00-${TRACE_ID}-[0-9a-f]{16}-00$`));
+		expect(headers.traceparent).not.toContain(PARENT_ID);
+		expect(headers).not.toHaveProperty('tracestate');
+	});
+
+	it('should drop an invalid tracestate but keep the trace', async () => {
+		let inside: ReturnType<typeof getTraceContext>;
+		await createLoggingMiddleware()(
+			makeOpts({
+				ctx: { headers: { traceparent: TRACEPARENT, tracestate: 'Bad Key=1' } },
+				next: vi.fn().mockImplementation(async () => {
+					inside = getTraceContext();
+					return { ok: true };
+				}),
+			}),
+		);
+		expect(inside?.traceId).toBe(TRACE_ID);
+		expect(inside).not.toHaveProperty('traceState');
+	});
+
+	it('should ignore an invalid traceparent', async () => {
+		const logs = createCapturingLogger();
+		let headers: Record<string, string> = { unset: 'yes' };
+		await createLoggingMiddleware({ logger: logs })(
+			makeOpts({
+				ctx: { headers: { traceparent: `00-${'0'.repeat(32)}-${PARENT_ID}-01` } },
+				next: vi.fn().mockImplementation(async () => {
+					headers = getTraceHeaders();
+					return { ok: true };
+				}),
+			}),
+		);
+		expect(headers).toEqual({});
+		expectLogged(logs, { message: 'tRPC procedure called' });
+		expectNotLogged(logs, { context: { traceId: /./ } });
+	});
+
+	it('should parent tracer spans on the incoming context', async () => {
+		const tracer = createInMemoryTracer();
+		configure({ logger: createCapturingLogger(), tracer });
+		let headers: Record<string, string> = {};
+		await createLoggingMiddleware()(
+			makeOpts({
+				ctx: { headers: { traceparent: TRACEPARENT } },
+				next: vi.fn().mockImplementation(async () => {
+					headers = getTraceHeaders();
+					return { ok: true };
+				}),
+			}),
+		);
+
+		const [span] = tracer.spans();
+		expect(span.traceId).toBe(TRACE_ID);
+		expect(span.parentSpanId).toBe(PARENT_ID);
+		expect(headers.traceparent).toBe(`00-${TRACE_ID}-${span.spanId}-01`);
+	});
+
+	it('should start a sampled root trace when a tracer has no parent', async () => {
+		const tracer = createInMemoryTracer();
+		let headers: Record<string, string> = {};
+		await createLoggingMiddleware({ tracer })(
+			makeOpts({
+				next: vi.fn().mockImplementation(async () => {
+					headers = getTraceHeaders();
+					return { ok: true };
+				}),
+			}),
+		);
+
+		const [span] = tracer.spans();
+		expect(span.parentSpanId).toBeUndefined();
+		expect(parseTraceparent(headers.traceparent)).toEqual({
+			version: '00',
+			traceId: span.traceId,
+			parentId: span.spanId,
+			traceFlags: TRACE_FLAG_SAMPLED,
+		});
+	});
+
+	it('should return no headers for an invalid active trace instead of throwing', () => {
+		const trace = { traceId: '0'.repeat(32), spanId: '0'.repeat(16), traceFlags: 0 };
+		runWithRequestContext({ requestId: 'r1', trace }, () => {
+			expect(getTraceHeaders()).toEqual({});
+		});
+	});
+
+	it('should return no headers outside a traced request', () => {
+		expect(getTraceContext()).toBeUndefined();
+		expect(getTraceHeaders()).toEqual({});
+	});
+});
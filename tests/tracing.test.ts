@@ -0,0 +1,232 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import {
+	configure,
+	resetConfig,
+	createLogger,
+	createInMemoryTracer,
+	createLoggingMiddleware,
+	getTraceHeaders,
+	loggingMiddleware,
+} from '../src/index.js';
+import type { Span, Tracer } from '../src/index.js';
+import { createCapturingLogger, expectLogged, expectNotLogged } from '../src/testing.js';
+import { createOptsFactory } from './helpers.js';
+
+const makeOpts = createOptsFactory({ ctx: { session: { id: 'sess-1', userId: 'user-1' } } });
+
+function makeNonRecordingTracer(): Tracer {
+	const span: Span = {
+		spanContext: () => ({ traceId: '0'.repeat(32), spanId: '0'.repeat(16) }),
+		setAttribute: () => {},
+		recordException: () => {},
+		setStatus: () => {},
+		end: () => {},
+	};
+	return { startSpan: () => span };
+}
+
+beforeEach(() => {
+	resetConfig();
+});
+
+afterEach(() => {
+	resetConfig();
+});
+
+describe('createInMemoryTracer', () => {
+	it('should record spans with generated ids', () => {
+		const tracer = createInMemoryTracer();
+		const span = tracer.startSpan('work', { attributes: { a: 1 } });
+		span.setAttribute('b', true);
+		span.end();
+
+		const [recorded] = tracer.spans();
+		expect(recorded).toMatchObject({
+			name: 'work',
+			attributes: { a: 1, b: true },
+			status: 'unset',
+			exceptions: [],
+		});
+		expect(recorded.traceId).toMatch(/^[0-9a-f]{32}$/);
+		expect(recorded.spanId).toMatch(/^[0-9a-f]{16}$/);
+		expect(recorded.endTime).toEqual(expect.any(Number));
+		expect(span.spanContext()).toEqual({ traceId: recorded.traceId, spanId: recorded.spanId });
+	});
+
+	it('should continue the parent trace', () => {
+		const tracer = createInMemoryTracer();
+		const parent = tracer.startSpan('parent').spanContext();
+		tracer.startSpan('child', { parent });
+		const [, child] = tracer.spans();
+		expect(child.traceId).toBe(parent.traceId);
+		expect(child.parentSpanId).toBe(parent.spanId);
+	});
+});
+
+describe('middleware tracing', () => {
+	it('should start and end a span named after the procedure', async () => {
+		const tracer = createInMemoryTracer();
+		await createLoggingMiddleware({ tracer })(makeOpts());
+
+		const [span] = tracer.spans();
+		expect(span).toMatchObject({
+			name: 'admin.users.list',
+			attributes: {
+				'trpc.procedure': 'admin.users.list',
+				'trpc.type': 'query',
+				'enduser.id': 'user-1',
+				'session.id': 'sess-1',
+			},
+			status: 'unset',
+		});
+		expect(span.endTime).toEqual(expect.any(Number));
+	});
+
+	it('should use the tracer from the global config', async () => {
+		const tracer = createInMemoryTracer();
+		configure({ logger: createCapturingLogger(), tracer });
+		await loggingMiddleware(makeOpts());
+		expect(tracer.spans()).toHaveLength(1);
+	});
+
+	it('should apply redaction to user and session attributes', async () => {
+		const tracer = createInMemoryTracer();
+		configure({
+			logger: createCapturingLogger(),
+			tracer,
+			redaction: {
+				rules: [
+					{ paths: ['userId'], strategy: 'hash' },
+					{ paths: ['sessionId'], strategy: 'remove' },
+				],
+				hashKey: 'secret',
+			},
+		});
+		await loggingMiddleware(makeOpts());
+
+		const { attributes } = tracer.spans()[0];
+		expect(attributes['enduser.id']).toMatch(/^hash:[0-9a-f]{16}$/);
+		expect(attributes).not.toHaveProperty('session.id');
+	});
+
+	it('should record errors with the tRPC code', async () => {
+		const tracer = createInMemoryTracer();
+		const error = Object.assign(new Error('Not allowed'), { code: 'FORBIDDEN' });
+		await expect(
+			createLoggingMiddleware({ tracer })(makeOpts({ next: vi.fn().mockRejectedValue(error) })),
+		).rejects.toBe(error);
+
+		const [span] = tracer.spans();
+		expect(span.status).toBe('error');
+		expect(span.statusMessage).toBe('Not allowed');
+		expect(span.exceptions).toEqual([error]);
+		expect(span.attributes['trpc.error_code']).toBe('FORBIDDEN');
+		expect(span.endTime).toEqual(expect.any(Number));
+	});
+
+	it('should record errors returned as an error result', async () => {
+		const tracer = createInMemoryTracer();
+		const error = Object.assign(new Error('Not allowed'), { code: 'FORBIDDEN' });
+		await createLoggingMiddleware({ tracer })(
+			makeOpts({ next: vi.fn().mockResolvedValue({ ok: false, error }) }),
+		);
+
+		const [span] = tracer.spans();
+		expect(span.status).toBe('error');
+		expect(span.exceptions).toEqual([error]);
+		expect(span.attributes['trpc.error_code']).toBe('FORBIDDEN');
+		expect(span.endTime).toEqual(expect.any(Number));
+	});
+
+	it('should put traceId and spanId on middleware and component log lines', async () => {
+		const logs = createCapturingLogger();
+		const tracer = createInMemoryTracer();
+		configure({ logger: logs, tracer });
+
+		await loggingMiddleware(
+			makeOpts({
+				next: vi.fn().mockImplementation(async () => {
+					createLogger('users').info('Loaded users');
+					return { ok: true };
+				}),
+			}),
+		);
+
+		const { traceId, spanId } = tracer.spans()[0];
+		expect(logs.entries()).toHaveLength(3);
+		for (const message of ['tRPC procedure called', 'Loaded users', 'tRPC procedure completed']) {
+			expectLogged(logs, { message, context: { traceId, spanId } });
+		}
+	});
+
+	it('should omit trace fields when no tracer is configured', async () => {
+		const logs = createCapturingLogger();
+		await createLoggingMiddleware({ logger: logs })(makeOpts());
+		expectNotLogged(logs, { context: { traceId: /./ } });
+	});
+
+	it('should allow trace fields to be disabled', async () => {
+		const logs = createCapturingLogger();
+		const tracer = createInMemoryTracer();
+		await createLoggingMiddleware({
+			logger: logs,
+			tracer,
+			fields: { traceId: false, spanId: false },
+		})(makeOpts());
+		expect(logs.entries()).toHaveLength(2);
+		expectNotLogged(logs, { context: { traceId: /./ } });
+		expectNotLogged(logs, { context: { spanId: /./ } });
+	});
+
+	it('should nest spans for procedures called inside a procedure', async () => {
+		const tracer = createInMemoryTracer();
+		const middleware = createLoggingMiddleware({ tracer });
+
+		await middleware(
+			makeOpts({
+				path: 'outer',
+				next: vi.fn().mockImplementation(() => middleware(makeOpts({ path: 'inner' }))),
+			}),
+		);
+
+		const [outer, inner] = tracer.spans();
+		expect(inner.traceId).toBe(outer.traceId);
+		expect(inner.parentSpanId).toBe(outer.spanId);
+	});
+
+	it('should generate ids when the tracer returns an invalid span context', async () => {
+		const logs = createCapturingLogger();
+		let headers: Record<string, string> = {};
+		await createLoggingMiddleware({ logger: logs, tracer: makeNonRecordingTracer() })(
+			makeOpts({
+				next: vi.fn().mockImplementation(async () => {
+					headers = getTraceHeaders();
+					return { ok: true };
+				}),
+			}),
+		);
+
+		const { context = {} } = expectLogged(logs, {
+			message: 'tRPC procedure called',
+			context: {
+				traceId: /^(?!0+$)[0-9a-f]{32}$/,
+				spanId: /^(?!0+$)[0-9a-f]{16}$/,
+			},
+		});
+		expect(headers.traceparent).toBe(`00-${context.traceId}-${context.spanId}-00`);
+	});
+
+	it('should fall back to the parent trace when the tracer span is invalid', async () => {
+		const logs = createCapturingLogger();
+		const traceId = '4bf92f3577b34da6a3ce929d0e0e4736';
+		await createLoggingMiddleware({ logger: logs, tracer: makeNonRecordingTracer() })(
+			makeOpts({
+				ctx: { headers: { traceparent: `00-${traceId}-00f067aa0ba902b7-01` } },
+			}),
+		);
+		expectLogged(logs, {
+			message: 'tRPC procedure called',
+			context: { traceId, spanId: /^(?!0+$)[0-9a-f]{16}$/ },
+		});
+	});
+});